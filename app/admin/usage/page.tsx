@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import UsageDashboard from '@/components/UsageDashboard';
+
+export const metadata: Metadata = {
+  title: '利用状況',
+};
+
+export default function UsagePage() {
+  return <UsageDashboard />;
+}
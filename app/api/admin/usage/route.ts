@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, isAdmin, listUsers } from '@/lib/auth';
+import { listUsage, summarizeUsage, toDayKey, usageToCSV } from '@/lib/usage';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_DAYS = 365;
+
+// 利用状況の集計（管理者のみ）。format=csv の場合は期間内の記録をCSVで返す
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const days = Number(params.get('days') ?? 30);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `days must be an integer between 1 and ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    // 今日を含めて days 日分（0時から）
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1)).getTime();
+    const to = now.getTime();
+    const [records, users] = await Promise.all([listUsage(from, to), listUsers()]);
+    const userEmails = new Map(users.map((u) => [u.id, u.email]));
+
+    if (params.get('format') === 'csv') {
+      return new Response(usageToCSV(records, userEmails), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="usage-${toDayKey(from)}-${toDayKey(to)}.csv"`,
+        },
+      });
+    }
+
+    const summary = summarizeUsage(records, from, to);
+    return NextResponse.json({
+      from,
+      to,
+      summary,
+      // 集計に含まれるユーザーのメールアドレス
+      userEmails: Object.fromEntries(summary.byUser.map((u) => [u.userId, userEmails.get(u.userId) ?? null])),
+    });
+  } catch (error) {
+    logger.error('Usage summary error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { ConfigError, getDifyApps, toAppInfo } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 選択できるDifyアプリの一覧（APIキーや接続先は返さない）。先頭が既定のアプリ
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    let apps;
+    try {
+      apps = getDifyApps();
+    } catch (e) {
+      if (e instanceof ConfigError) {
+        return NextResponse.json({ error: e.problems.join('\n') }, { status: 500 });
+      }
+      throw e;
+    }
+
+    return NextResponse.json({ apps: apps.map(toAppInfo), defaultAppId: apps[0].id });
+  } catch (error) {
+    logger.error('App list error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
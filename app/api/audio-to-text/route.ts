@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { resolveDifyApp } from '@/lib/config';
+import { audioToText } from '@/lib/dify';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Difyの音声ファイル上限（15MB）
+const MAX_AUDIO_SIZE = 15 * 1024 * 1024;
+
+// 録音した音声をDifyの音声認識に転送し、文字起こし結果を返す
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: 'Audio file is required' }, { status: 400 });
+    }
+    if (file.size > MAX_AUDIO_SIZE) {
+      return NextResponse.json({ error: 'Audio file is too large (max 15MB)' }, { status: 413 });
+    }
+
+    const app = resolveDifyApp(formData.get('appId'));
+    if (app instanceof NextResponse) return app;
+
+    const text = await audioToText(app, file, user.id);
+    return NextResponse.json({ text });
+  } catch (error) {
+    logger.error('Audio-to-text error', { error });
+    return NextResponse.json(
+      { error: 'Failed to transcribe audio', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    );
+  }
+}
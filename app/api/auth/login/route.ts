@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticate, createSession, isAdmin, setSessionCookie, validateCredentials } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    // 壊れたJSONや null は空の入力として扱い、validateCredentials で 400 を返す
+    const body = (await request.json().catch(() => null)) ?? {};
+    const { email, password } = validateCredentials(body.email, body.password);
+
+    const user = await authenticate(email, password);
+    const token = await createSession(user.id);
+
+    const response = NextResponse.json({ user: { ...user, isAdmin: isAdmin(user) } });
+    setSessionCookie(response, token);
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Login error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
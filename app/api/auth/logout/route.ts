@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, clearSessionCookie, deleteSession } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await deleteSession(token);
+    }
+
+    const response = NextResponse.json({ ok: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    logger.error('Logout error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
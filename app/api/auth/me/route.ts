@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, isAdmin } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ログイン中のユーザーを返す（未ログインの場合は user: null）
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    return NextResponse.json({ user: user && { ...user, isAdmin: isAdmin(user) } });
+  } catch (error) {
+    logger.error('Session lookup error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,34 +1,93 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ChatMessage, serializeHistory } from '@/lib/history';
+import { getSessionUser } from '@/lib/auth';
+import { SSEEvent, encodeSSE, readSSEStream } from '@/lib/sse';
+import { ChatStreamPayload, StreamStatus, toCitations, toWorkflowStep } from '@/lib/chat-stream';
+import { DifyAppConfig, resolveDifyApp } from '@/lib/config';
+import { RETRYABLE_STATUSES, backoffDelay, parseRetryAfter, sleep } from '@/lib/retry';
+import { checkRateLimit, getRateLimitKey, recordTokenUsage } from '@/lib/rate-limit';
+import { UsageRecord, UsageStatus, recordUsage } from '@/lib/usage';
+import { Logger, REQUEST_ID_HEADER, getRequestId, logger } from '@/lib/logger';
+import { DifyWorkflowFile, buildRunRequest, extractWorkflowOutput, stopTask, toUploadedWorkflowFile, uploadFileToDify } from '@/lib/dify';
+import type { Attachment } from '@/lib/types';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+// JSON またはマルチパート（payload + files）のリクエストを読み取る。読み取れない場合は null
+async function parseChatRequest(request: NextRequest) {
+  const contentType = request.headers.get('content-type') || '';
+  try {
+    if (contentType.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      const payload = JSON.parse(String(formData.get('payload') || '{}'));
+      const files = formData.getAll('files').filter((f): f is File => f instanceof File);
+      return { ...payload, files };
+    }
+    return { ...(await request.json()), files: [] as File[] };
+  } catch {
+    return null;
+  }
 }
 
+// リクエストごとにIDを振り、ログとレスポンスヘッダーに付ける（クライアントのエラー表示にも使う）
 export async function POST(request: NextRequest) {
+  const requestId = getRequestId(request.headers);
+  const response = await handleChat(request, logger.child({ requestId, route: '/api/chat' }));
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+async function handleChat(request: NextRequest, log: Logger): Promise<Response> {
+  const startedAt = Date.now();
   try {
-    const { messages, user } = await request.json();
+    // proxy.ts で確認済みだが、Difyに渡すユーザーIDを得るためここでも取得する
+    const authUser = await getSessionUser(request);
 
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+    // ユーザー（未ログインならIP）ごとの回数制限と1日のトークン上限
+    const limitKey = getRateLimitKey(request.headers, authUser?.id);
+    const limit = await checkRateLimit(limitKey);
+    if (!limit.allowed) {
+      const reasons = {
+        minute: 'Too many requests. Please wait a moment and try again.',
+        day: 'Daily request limit reached.',
+        tokens: 'Daily token quota exceeded.',
+      };
       return NextResponse.json(
-        { error: 'Messages are required' },
+        { error: reasons[limit.reason], retryAfter: limit.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    const user = authUser.id;
+
+    const body = await parseChatRequest(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON (or multipart with a JSON payload field)' },
         { status: 400 }
       );
     }
+    const { messages, files, uploadedFiles, conversationId, parentMessageId, localConversationId, appId } = body;
 
-    const apiKey = process.env.DIFY_API_KEY;
-    if (!apiKey) {
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
       return NextResponse.json(
-        { error: 'DIFY_API_KEY is not configured' },
-        { status: 500 }
+        { error: 'Messages are required' },
+        { status: 400 }
       );
     }
 
+    const app = resolveDifyApp(appId);
+    if (app instanceof NextResponse) return app;
+
     // 最後のユーザーメッセージを取得
-    const lastMessage = messages[messages.length - 1];
+    const lastMessage: ChatMessage = messages[messages.length - 1];
     if (lastMessage.role !== 'user') {
       return NextResponse.json(
         { error: 'Last message must be from user' },
@@ -36,172 +95,377 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // ワークフローアプリの場合は /v1/workflows/run エンドポイントを使用
-    // リクエストボディの形式も異なる
-    const requestBody: {
-      inputs: Record<string, any>;
-      response_mode: string;
-      user: string;
-    } = {
-      // ワークフローでは、ユーザー入力は inputs の中に含める
-      // ワークフローの入力変数名に応じて調整が必要な場合があります
-      // 一般的には 'query' や 'input' などが使われます
-      inputs: {
-        query: lastMessage.content,
-      },
-      response_mode: 'streaming',
-      user: user || 'user-123',
+    // 最後のメッセージより前のやり取りを履歴として渡す（チャットフローはDify側の記憶を使うため渡さない）
+    const history = serializeHistory(
+      (messages as ChatMessage[]).slice(0, -1),
+      app.historyMaxChars
+    );
+
+    // 再生成では、前回アップロードしたファイル（uploadFileId 付きの添付）を送り直す
+    if (
+      uploadedFiles !== undefined &&
+      (!Array.isArray(uploadedFiles) ||
+        !uploadedFiles.every((f: Attachment) => typeof f?.uploadFileId === 'string' && typeof f.name === 'string' && typeof f.mimeType === 'string'))
+    ) {
+      return NextResponse.json(
+        { error: 'uploadedFiles must be an array of attachments with uploadFileId' },
+        { status: 400 }
+      );
+    }
+    const reusedFiles: DifyWorkflowFile[] = ((uploadedFiles ?? []) as Required<Attachment>[]).map((f) =>
+      toUploadedWorkflowFile(f.uploadFileId, f.name, f.mimeType)
+    );
+
+    // 添付ファイルをDifyにアップロード
+    let workflowFiles: DifyWorkflowFile[] = reusedFiles;
+    if (files.length > 0) {
+      try {
+        workflowFiles = await Promise.all(
+          (files as File[]).map((file) => uploadFileToDify(app, file, user))
+        );
+      } catch (e) {
+        log.error('File upload to Dify failed', { error: e, fileCount: files.length });
+        return NextResponse.json(
+          { error: 'Failed to upload files to Dify API', details: e instanceof Error ? e.message : String(e) },
+          { status: 502 }
+        );
+      }
+    }
+
+    // クライアントの切断や停止に合わせてDifyへのリクエストも中断する
+    const upstreamController = new AbortController();
+    // 実際に回答しているアプリ（予備のアプリに切り替えた場合はそちら）
+    let activeApp: DifyAppConfig = app;
+    let taskId: string | null = null;
+    let finished = false;
+    const abortUpstream = () => {
+      if (finished || upstreamController.signal.aborted) return;
+      upstreamController.abort();
+      if (taskId) {
+        stopTask(activeApp, taskId, user).catch((e) => {
+          log.error('Failed to stop Dify task', { error: e, taskId });
+        });
+      }
     };
-    
-    // ワークフローアプリのエンドポイント
-    const apiUrl = 'https://api.dify.ai/v1/workflows/run';
-    
-    console.log('Dify API Request:', {
-      url: apiUrl,
-      method: 'POST',
-      hasApiKey: !!apiKey,
-      apiKeyPrefix: apiKey ? apiKey.substring(0, 10) + '...' : 'none',
-      body: requestBody,
-    });
+    request.signal.addEventListener('abort', abortUpstream);
 
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+    // 利用状況を1リクエストにつき1回だけ記録する（Difyが報告したトークン数は1日の上限にも加える）
+    type UsageMetrics = Partial<Pick<UsageRecord, 'difyConversationId' | 'error' | 'totalTokens' | 'elapsedTime' | 'totalSteps'>>;
+    let usageRecorded = false;
+    const saveUsage = (status: UsageStatus, metrics: UsageMetrics = {}) => {
+      if (usageRecorded) return;
+      usageRecorded = true;
+      log.info('Chat request finished', { status, durationMs: Date.now() - startedAt, ...metrics });
+      recordUsage({
+        userId: user,
+        ...(typeof localConversationId === 'string' && localConversationId && { conversationId: localConversationId }),
+        appId: app.id,
+        appType: activeApp.appType,
+        status,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        ...metrics,
+      }).catch((e) => log.error('Failed to record usage', { error: e }));
+      if (metrics.totalTokens) {
+        recordTokenUsage(limitKey, metrics.totalTokens).catch((e) => log.error('Failed to record token usage', { error: e }));
+      }
+    };
+
+    // アプリ種別（workflow / chatflow / completion）に応じたエンドポイントとリクエストボディ
+    // 予備のアプリにはファイルをアップロードし直し、Dify側の会話（元のアプリに属する）は引き継がない
+    const buildRequestFor = async (target: DifyAppConfig) => buildRunRequest(target, {
+      query: lastMessage.content,
+      history,
+      files: target === app
+        ? workflowFiles
+        : await Promise.all((files as File[]).map((file) => uploadFileToDify(target, file, user))),
+      user,
+      conversationId: target === app && typeof conversationId === 'string' ? conversationId : undefined,
+      parentMessageId: target === app && typeof parentMessageId === 'string' ? parentMessageId : undefined,
     });
 
-    if (!response.ok) {
-      let errorText = '';
-      let errorJson = null;
+    // 1回分の接続。最初のイベントが届くまでに失敗した場合は、再試行できるかどうかを返す
+    type Attempt =
+      | { ok: true; events: AsyncGenerator<SSEEvent>; first: IteratorResult<SSEEvent> }
+      | { ok: false; retryable: boolean; error: string; retryAfterMs?: number };
+    const attempt = async (target: DifyAppConfig, url: string, body: Record<string, unknown>): Promise<Attempt> => {
+      let response: Response;
       try {
-        errorText = await response.text();
-        console.log('Dify API error response (raw):', errorText);
-        if (errorText) {
-          try {
-            errorJson = JSON.parse(errorText);
-          } catch (e) {
-            // JSONではない場合はそのまま使用
-            console.log('Error response is not JSON');
-          }
-        }
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${target.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+          signal: upstreamController.signal,
+        });
       } catch (e) {
-        errorText = `Failed to read error response: ${e instanceof Error ? e.message : String(e)}`;
-        console.error('Failed to read error response:', e);
+        if (upstreamController.signal.aborted) throw e;
+        log.warn('Failed to connect to Dify', { error: e });
+        return { ok: false, retryable: true, error: `Failed to connect to Dify API: ${e instanceof Error ? e.message : String(e)}` };
       }
-      
-      console.error('Dify API error:', {
-        status: response.status,
-        statusText: response.statusText,
-        errorText,
-        errorJson,
-        headers: Object.fromEntries(response.headers.entries()),
-      });
-      
-      const errorMessage = errorJson?.message || errorJson?.error || errorJson?.detail || errorText || `HTTP ${response.status}: ${response.statusText}`;
-      return NextResponse.json(
-        { 
-          error: 'Failed to fetch from Dify API', 
-          message: errorMessage,
-          details: errorJson || errorText,
+
+      if (!response.ok) {
+        let errorText = '';
+        let errorJson = null;
+        try {
+          errorText = await response.text();
+          if (errorText) {
+            try {
+              errorJson = JSON.parse(errorText);
+            } catch {
+              // JSONではない場合はそのまま使用
+            }
+          }
+        } catch (e) {
+          errorText = `Failed to read error response: ${e instanceof Error ? e.message : String(e)}`;
+          log.error('Failed to read Dify error response', { error: e });
+        }
+
+        // Difyのエラー応答には入力が含まれることがあるため、本文は debug のときだけ出る
+        const retryable = RETRYABLE_STATUSES.includes(response.status);
+        log[retryable ? 'warn' : 'error']('Dify API returned an error', {
           status: response.status,
           statusText: response.statusText,
-        },
-        { status: response.status }
-      );
-    }
+          code: errorJson?.code,
+          errorText,
+        });
+
+        const errorMessage = errorJson?.message || errorJson?.error || errorJson?.detail || errorText || response.statusText;
+        return {
+          ok: false,
+          retryable,
+          error: `Dify API error (HTTP ${response.status}): ${errorMessage}`,
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) ?? undefined,
+        };
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        return { ok: false, retryable: true, error: 'Dify API returned an empty response' };
+      }
+      const events = readSSEStream(reader);
+      try {
+        const first = await events.next();
+        if (first.done) {
+          return { ok: false, retryable: true, error: 'Connection to Dify API closed before the first event' };
+        }
+        return { ok: true, events, first };
+      } catch (e) {
+        if (upstreamController.signal.aborted) throw e;
+        log.warn('Connection to Dify dropped before the first event', { error: e });
+        return { ok: false, retryable: true, error: `Connection to Dify API dropped: ${e instanceof Error ? e.message : String(e)}` };
+      }
+    };
+
+    // 一時的なエラーは待ち時間を延ばしながら再試行し、それでもだめなら予備のアプリに順に切り替える
+    // 再試行するのは最初のイベントが届く前だけなので、回答が重複することはない
+    const connect = async (notify: (status: StreamStatus) => void): Promise<Attempt> => {
+      // 送り直すファイルは元のアプリにアップロードしたものなので、予備のアプリには切り替えない
+      const targets = reusedFiles.length > 0 ? [app] : [app, ...app.fallbacks];
+      let lastError = 'Dify API is unavailable';
+      for (let index = 0; index < targets.length; index++) {
+        const target = targets[index];
+        if (index > 0) {
+          log.warn('Failing over to fallback Dify app', { fallback: index, baseUrl: target.baseUrl, appType: target.appType, reason: lastError });
+          notify({ type: 'failover', fallback: index });
+        }
+
+        let run;
+        try {
+          run = await buildRequestFor(target);
+        } catch (e) {
+          lastError = `Failed to upload files to Dify API: ${e instanceof Error ? e.message : String(e)}`;
+          log.error('File upload to fallback Dify app failed', { error: e, fallback: index });
+          continue;
+        }
+        log.info('Sending request to Dify', {
+          url: run.url,
+          appType: target.appType,
+          ...(index > 0 && { fallback: index }),
+          userId: user,
+          messageCount: messages.length,
+          fileCount: files.length + reusedFiles.length,
+        });
+        // 本文は LOG_LEVEL=debug のときだけ出る
+        log.debug('Dify request body', { body: run.body });
+
+        for (let attemptNumber = 1; ; attemptNumber++) {
+          const result = await attempt(target, run.url, run.body);
+          if (result.ok || !result.retryable) {
+            activeApp = target;
+            return result;
+          }
+          lastError = result.error;
+          if (attemptNumber > target.maxRetries) break;
+
+          const delayMs = result.retryAfterMs ?? backoffDelay(attemptNumber, target.retryBaseDelayMs, target.retryMaxDelayMs);
+          if (delayMs > target.retryMaxDelayMs) {
+            log.warn('Retry-After exceeds the maximum retry delay', { retryAfterMs: delayMs, maxDelayMs: target.retryMaxDelayMs });
+            break;
+          }
+          log.warn('Retrying Dify request', { attempt: attemptNumber + 1, delayMs, reason: result.error, ...(index > 0 && { fallback: index }) });
+          notify({ type: 'retrying', attempt: attemptNumber + 1, delayMs });
+          await sleep(delayMs, upstreamController.signal);
+        }
+      }
+      return { ok: false, retryable: false, error: lastError };
+    };
 
-    // ストリーミングレスポンスを返す
+    // ストリーミングレスポンスを返す（再試行の状況も同じストリームで伝える）
     const stream = new ReadableStream({
       async start(controller) {
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
+        let sentConversationId = false;
+        let sentMessageId = false;
+        // 終了イベントまでに届いた利用状況（チャットフローでは workflow_finished のあとに message_end が届く）
+        const metrics: UsageMetrics = {};
+        const numberOrUndefined = (value: unknown) => (typeof value === 'number' ? value : undefined);
 
-        if (!reader) {
+        // 終了イベントを送ってストリームを閉じる
+        const finish = (payload: ChatStreamPayload) => {
+          controller.enqueue(encodeSSE({ ...payload, done: true }));
+          finished = true;
           controller.close();
-          return;
+        };
+
+        // アップロードしたファイルのidを伝える（元のアプリのものなので、予備のアプリに切り替えても再生成に使える）
+        if (files.length > 0) {
+          const payload: ChatStreamPayload = { uploadFileIds: workflowFiles.map((f) => f.upload_file_id) };
+          controller.enqueue(encodeSSE(payload));
         }
 
         try {
-          while (true) {
-            const { done, value } = await reader.read();
+          const connection = await connect((status) => {
+            const payload: ChatStreamPayload = { status };
+            controller.enqueue(encodeSSE(payload));
+          });
+          if (!connection.ok) {
+            saveUsage('failed', { error: connection.error });
+            finish({ error: connection.error });
+            return;
+          }
 
-            if (done) {
+          for (let next = connection.first; !next.done; next = await connection.events.next()) {
+            const event = next.value;
+            if (event.data === '[DONE]') {
+              finished = true;
               controller.close();
-              break;
+              return;
+            }
+
+            let parsed;
+            try {
+              parsed = JSON.parse(event.data);
+            } catch {
+              log.warn('Failed to parse Dify event', { event: event.event, length: event.data.length });
+              continue;
+            }
+
+            // 停止APIで使うタスクIDを保持（workflow_started 以降の全イベントに含まれる）
+            if (parsed.task_id) {
+              taskId = parsed.task_id;
             }
 
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                if (data === '[DONE]') {
-                  controller.close();
-                  return;
-                }
-
-                try {
-                  const parsed = JSON.parse(data);
-                  
-                  // ワークフローのストリーミング形式に応じて処理
-                  if (parsed.event === 'text_chunk') {
-                    // テキストチャンクの場合
-                    const text = parsed.data?.text || parsed.text || '';
-                    if (text) {
-                      controller.enqueue(
-                        new TextEncoder().encode(`data: ${JSON.stringify({ content: text })}\n\n`)
-                      );
-                    }
-                  } else if (parsed.event === 'message') {
-                    // メッセージイベント（チャットアプリとの互換性のため）
-                    const answer = parsed.answer || parsed.data?.answer || '';
-                    if (answer) {
-                      controller.enqueue(
-                        new TextEncoder().encode(`data: ${JSON.stringify({ content: answer })}\n\n`)
-                      );
-                    }
-                  } else if (parsed.event === 'workflow_finished' || parsed.event === 'message_end') {
-                    // ワークフロー終了時
-                    const finalOutput = parsed.data?.output || parsed.output || parsed.answer || '';
-                    if (finalOutput) {
-                      controller.enqueue(
-                        new TextEncoder().encode(`data: ${JSON.stringify({ content: finalOutput, done: true })}\n\n`)
-                      );
-                    } else {
-                      controller.enqueue(
-                        new TextEncoder().encode(`data: ${JSON.stringify({ done: true })}\n\n`)
-                      );
-                    }
-                    controller.close();
-                    return;
-                  } else if (parsed.event === 'error') {
-                    // エラーイベントの場合
-                    const errorMsg = parsed.message || parsed.data?.message || 'Unknown error';
-                    controller.enqueue(
-                      new TextEncoder().encode(`data: ${JSON.stringify({ error: errorMsg, done: true })}\n\n`)
-                    );
-                    controller.close();
-                    return;
-                  } else if (parsed.event === 'workflow_started' || parsed.event === 'node_started' || parsed.event === 'node_finished') {
-                    // ワークフローの進行状況イベントはスキップ
-                    continue;
-                  }
-                } catch (e) {
-                  // JSONパースエラーは無視して続行
-                  continue;
-                }
+            // 予備のアプリの会話ID・メッセージIDは元のアプリでは使えない（次回のリクエストや評価が404になる）ため伝えない
+            const answeredByApp = activeApp === app;
+
+            // チャットフローの会話IDを一度だけクライアントに伝える（次回以降のリクエストで使う）
+            if (parsed.conversation_id && !sentConversationId) {
+              sentConversationId = true;
+              metrics.difyConversationId = parsed.conversation_id;
+              if (answeredByApp) {
+                const payload: ChatStreamPayload = { conversationId: parsed.conversation_id };
+                controller.enqueue(encodeSSE(payload));
+              }
+            }
+
+            // 回答のメッセージIDを一度だけクライアントに伝える（評価の送信に使う）
+            if (parsed.message_id && !sentMessageId && answeredByApp) {
+              sentMessageId = true;
+              const payload: ChatStreamPayload = { messageId: parsed.message_id };
+              controller.enqueue(encodeSSE(payload));
+            }
+
+            if (parsed.event === 'workflow_finished') {
+              metrics.totalTokens = numberOrUndefined(parsed.data?.total_tokens);
+              metrics.elapsedTime = numberOrUndefined(parsed.data?.elapsed_time);
+              metrics.totalSteps = numberOrUndefined(parsed.data?.total_steps);
+            }
+
+            // ワークフローのストリーミング形式に応じて処理
+            if (parsed.event === 'text_chunk') {
+              // テキストチャンクの場合
+              const text = parsed.data?.text || parsed.text || '';
+              if (text) {
+                controller.enqueue(encodeSSE({ content: text }));
+              }
+            } else if (parsed.event === 'message') {
+              // メッセージイベント（チャットアプリとの互換性のため）
+              const answer = parsed.answer || parsed.data?.answer || '';
+              if (answer) {
+                controller.enqueue(encodeSSE({ content: answer }));
+              }
+            } else if (parsed.event === 'workflow_finished' && activeApp.appType === 'workflow') {
+              // ワークフロー終了時
+              const status = parsed.data?.status;
+              saveUsage(status === 'failed' ? 'failed' : status === 'stopped' ? 'stopped' : 'succeeded', {
+                ...metrics,
+                ...(typeof parsed.data?.error === 'string' && parsed.data.error && { error: parsed.data.error }),
+              });
+              const finalOutput = extractWorkflowOutput(activeApp, parsed.data?.outputs);
+              const citations = toCitations(parsed.data?.metadata?.retriever_resources ?? parsed.data?.outputs?.retriever_resources);
+              finish({
+                ...(finalOutput && { content: finalOutput }),
+                ...(citations.length > 0 && { citations }),
+              });
+              return;
+            } else if (parsed.event === 'message_end') {
+              // チャットフロー・テキスト生成の終了時（回答は message イベントで受信済み）
+              saveUsage('succeeded', {
+                ...metrics,
+                totalTokens: numberOrUndefined(parsed.metadata?.usage?.total_tokens) ?? metrics.totalTokens,
+                elapsedTime: numberOrUndefined(parsed.metadata?.usage?.latency) ?? metrics.elapsedTime,
+              });
+              const citations = toCitations(parsed.metadata?.retriever_resources);
+              finish(citations.length > 0 ? { citations } : {});
+              return;
+            } else if (parsed.event === 'error') {
+              // エラーイベントの場合
+              const errorMsg = parsed.message || parsed.data?.message || 'Unknown error';
+              saveUsage('failed', { ...metrics, error: errorMsg });
+              finish({ error: errorMsg });
+              return;
+            } else if (parsed.event === 'node_started' || parsed.event === 'node_finished') {
+              // ノードの進行状況をステップとして転送
+              const step = toWorkflowStep(parsed.event, parsed.data);
+              if (step) {
+                const payload: ChatStreamPayload = { step };
+                controller.enqueue(encodeSSE(payload));
               }
             }
           }
+
+          finished = true;
+          controller.close();
         } catch (error) {
-          console.error('Stream error:', error);
+          // クライアントによる停止の場合はエラーとして扱わない
+          if (upstreamController.signal.aborted) {
+            return;
+          }
+          log.error('Stream from Dify failed', { error });
+          saveUsage('failed', { ...metrics, error: error instanceof Error ? error.message : String(error) });
           controller.error(error);
+        } finally {
+          request.signal.removeEventListener('abort', abortUpstream);
+          // 終了イベントが届かずに終わった場合（停止を含む）
+          saveUsage(upstreamController.signal.aborted ? 'stopped' : 'succeeded', metrics);
         }
       },
+      cancel() {
+        // ブラウザが読み取りを中止した場合
+        abortUpstream();
+      },
     });
 
     return new Response(stream, {
@@ -212,7 +476,7 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
-    console.error('API route error:', error);
+    log.error('Chat request failed', { error });
     return NextResponse.json(
       { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
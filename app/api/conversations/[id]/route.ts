@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { deleteConversation, getConversation, isValidConversation, saveConversation } from '@/lib/conversations';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const conversation = await getConversation(user.id, id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    logger.error('Get conversation error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// 会話を更新（サーバー側の方が新しい場合は 409 とサーバー側の会話を返す）
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { conversation } = (await request.json().catch(() => null)) ?? {};
+    if (!isValidConversation(conversation) || conversation.id !== id) {
+      return NextResponse.json({ error: 'Invalid conversation' }, { status: 400 });
+    }
+
+    const result = await saveConversation(user.id, conversation);
+    return NextResponse.json(
+      { conversation: result.conversation },
+      { status: result.status === 'conflict' ? 409 : 200 }
+    );
+  } catch (error) {
+    logger.error('Update conversation error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteConversation(user.id, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    logger.error('Delete conversation error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
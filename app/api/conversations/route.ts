@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { isValidConversation, listConversations, saveConversation } from '@/lib/conversations';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ログイン中のユーザーの会話一覧
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const conversations = await listConversations(user.id);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    logger.error('List conversations error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// 会話を作成（localStorageからの取り込みにも使う）
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { conversation } = (await request.json().catch(() => null)) ?? {};
+    if (!isValidConversation(conversation)) {
+      return NextResponse.json({ error: 'Invalid conversation' }, { status: 400 });
+    }
+
+    const result = await saveConversation(user.id, conversation);
+    return NextResponse.json(
+      { conversation: result.conversation },
+      { status: result.status === 'conflict' ? 409 : 201 }
+    );
+  } catch (error) {
+    logger.error('Create conversation error', { error });
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { resolveDifyApp } from '@/lib/config';
+import { sendMessageFeedback } from '@/lib/dify';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_COMMENT_LENGTH = 1000;
+
+// 回答への評価（いいね・よくない・取り消し）をDifyのメッセージフィードバックに転送する
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => null)) ?? {};
+    const messageId = typeof body.messageId === 'string' ? body.messageId : '';
+    const rating = body.rating;
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+    if (!messageId) {
+      return NextResponse.json({ error: 'messageId is required' }, { status: 400 });
+    }
+    if (rating !== 'like' && rating !== 'dislike' && rating !== null) {
+      return NextResponse.json({ error: 'rating must be "like", "dislike" or null' }, { status: 400 });
+    }
+    if (comment.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json({ error: `Comment is too long (max ${MAX_COMMENT_LENGTH} characters)` }, { status: 400 });
+    }
+
+    const app = resolveDifyApp(body.appId);
+    if (app instanceof NextResponse) return app;
+
+    await sendMessageFeedback(app, messageId, rating, user.id, rating ? comment : undefined);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Feedback error', { error });
+    return NextResponse.json(
+      { error: 'Failed to send feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { resolveDifyApp } from '@/lib/config';
+import { textToAudio } from '@/lib/dify';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 一度に読み上げるテキストの上限
+const MAX_TEXT_LENGTH = 10000;
+
+// 回答テキストをDifyの音声合成に転送し、音声をそのままストリームで返す
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => null)) ?? {};
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) {
+      return NextResponse.json({ error: 'Text is required' }, { status: 400 });
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: `Text is too long (max ${MAX_TEXT_LENGTH} characters)` }, { status: 413 });
+    }
+
+    const app = resolveDifyApp(body.appId);
+    if (app instanceof NextResponse) return app;
+
+    const upstream = await textToAudio(app, text, user.id, request.signal);
+    return new Response(upstream.body, {
+      headers: {
+        'Content-Type': upstream.headers.get('content-type') || 'audio/mpeg',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    logger.error('Text-to-audio error', { error });
+    return NextResponse.json(
+      { error: 'Failed to synthesize speech', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    );
+  }
+}
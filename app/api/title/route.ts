@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { resolveDifyApp } from '@/lib/config';
+import { generateConversationName, runTitleWorkflow } from '@/lib/dify';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// タイトル生成に渡す本文の上限（長い回答は先頭だけで十分）
+const MAX_INPUT_CHARS = 2000;
+
+// 最初の質問と回答から会話のタイトルを生成する
+// チャットフローはDifyの会話名の自動生成、それ以外はタイトル生成ワークフロー（titleApiKey）を使う
+// どちらも使えない場合は title: null を返し、クライアントは先頭30文字のタイトルのままにする
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => null)) ?? {};
+    const question = typeof body.question === 'string' ? body.question.slice(0, MAX_INPUT_CHARS) : '';
+    const answer = typeof body.answer === 'string' ? body.answer.slice(0, MAX_INPUT_CHARS) : '';
+    const difyConversationId = typeof body.difyConversationId === 'string' ? body.difyConversationId : '';
+    if (!question) {
+      return NextResponse.json({ error: 'Question is required' }, { status: 400 });
+    }
+
+    const app = resolveDifyApp(body.appId);
+    if (app instanceof NextResponse) return app;
+
+    let title = '';
+    if (app.appType === 'chatflow' && difyConversationId) {
+      title = await generateConversationName(app, difyConversationId, user.id);
+    } else if (app.titleApiKey) {
+      title = await runTitleWorkflow(app, question, answer, user.id);
+    }
+
+    return NextResponse.json({ title: title || null });
+  } catch (error) {
+    logger.error('Title generation error', { error });
+    return NextResponse.json(
+      { error: 'Failed to generate title', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    );
+  }
+}
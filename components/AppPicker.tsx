@@ -0,0 +1,91 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Bot, Check, ChevronDown } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { DifyAppInfo } from '@/lib/config';
+
+interface AppPickerProps {
+  apps: DifyAppInfo[];
+  // 選択中のアプリのID
+  value: string;
+  onChange: (appId: string) => void;
+  disabled?: boolean;
+}
+
+// アイコンは絵文字または画像のURL（未指定ならロボットのアイコン）
+function AppIcon({ icon }: { icon?: string }) {
+  if (!icon) {
+    return <Bot className="h-4 w-4 text-gray-400" />;
+  }
+  if (/^(https?:)?\/\//.test(icon) || icon.startsWith('/')) {
+    return <Image src={icon} alt="" width={16} height={16} className="h-4 w-4 rounded object-cover" unoptimized />;
+  }
+  return <span className="text-base leading-none">{icon}</span>;
+}
+
+// ヘッダーで回答に使うDifyアプリを選ぶ
+export default function AppPicker({ apps, value, onChange, disabled = false }: AppPickerProps) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const selected = apps.find((app) => app.id === value);
+
+  // メニューの外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={rootRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="flex items-center gap-2 rounded-lg border border-gray-700/50 px-3 py-2 text-sm text-gray-200 hover:bg-gray-700/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        title="回答に使うアプリ"
+      >
+        <AppIcon icon={selected?.icon} />
+        <span className="max-w-[10rem] truncate">{selected?.name ?? 'アプリを選択'}</span>
+        <ChevronDown className="h-4 w-4 text-gray-400" />
+      </button>
+      {open && (
+        <div className="absolute left-0 top-full mt-2 w-72 rounded-lg border border-gray-700/50 bg-[#2d2d3a] shadow-xl overflow-hidden z-20" role="listbox">
+          {apps.map((app) => (
+            <button
+              key={app.id}
+              type="button"
+              onClick={() => {
+                setOpen(false);
+                if (app.id !== value) onChange(app.id);
+              }}
+              className="w-full flex items-start gap-3 px-4 py-2.5 text-left hover:bg-gray-700/50 transition-colors"
+              role="option"
+              aria-selected={app.id === value}
+            >
+              <span className="mt-0.5 flex h-4 w-4 flex-shrink-0 items-center justify-center">
+                <AppIcon icon={app.icon} />
+              </span>
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-sm text-gray-200">{app.name}</span>
+                {app.description && (
+                  <span className="mt-0.5 block text-xs text-gray-400">{app.description}</span>
+                )}
+              </span>
+              <Check className={clsx('mt-0.5 h-4 w-4 flex-shrink-0 text-[#10a37f]', app.id !== value && 'invisible')} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
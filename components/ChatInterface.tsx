@@ -1,23 +1,181 @@
 'use client';
 
-import { useState, useRef, useEffect, FormEvent, KeyboardEvent } from 'react';
+import { useState, useRef, useEffect, useMemo, useCallback, FormEvent, KeyboardEvent } from 'react';
 import Image from 'next/image';
-import ReactMarkdown from 'react-markdown';
-import { Send, Bot, User, LogIn, UserPlus, X, MessageSquare, Plus, Trash2, Menu, ChevronLeft, Paperclip, File, ArrowUp, Mic } from 'lucide-react';
+import Link from 'next/link';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Element, ElementContent } from 'hast';
+import { Send, Bot, User, LogIn, UserPlus, X, MessageSquare, Plus, Menu, ChevronLeft, Paperclip, File, ArrowUp, Square, ChevronRight, Pencil, RefreshCw, LogOut, BarChart3, Volume2, VolumeX, Pause, Loader2, Download, Upload, FileText, FileJson, Printer, Search, Folder } from 'lucide-react';
 import { clsx } from 'clsx';
+import { readSSEStream } from '@/lib/sse';
+import type { ChatStreamPayload, Citation, StreamStatus, WorkflowStep } from '@/lib/chat-stream';
+import type { Conversation, Feedback, Message } from '@/lib/types';
+import type { DifyAppInfo } from '@/lib/config';
+import { findLatestLeaf, getActivePath, getSiblings, mergePath, normalizeTree } from '@/lib/message-tree';
+import * as conversationApi from '@/lib/conversation-api';
+import WorkflowSteps from '@/components/WorkflowSteps';
+import Citations from '@/components/Citations';
+import FeedbackButtons from '@/components/FeedbackButtons';
+import VoiceInputButton from '@/components/VoiceInputButton';
+import ConversationListItem from '@/components/ConversationListItem';
+import CodeBlock from '@/components/CodeBlock';
+import MermaidDiagram from '@/components/MermaidDiagram';
+import CopyButton from '@/components/CopyButton';
+import AppPicker from '@/components/AppPicker';
+import { useSpeechPlayer } from '@/lib/use-speech-player';
+import {
+  conversationToJSON,
+  conversationToMarkdown,
+  conversationToPrintableHtml,
+  parseConversationExport,
+  toExportFileName,
+} from '@/lib/conversation-export';
+import { getFolders, groupConversations } from '@/lib/conversation-groups';
+import { buildSearchIndex, searchMessages, type SearchResult } from '@/lib/search';
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-}
+// コードブロックの元のテキスト（ハイライトで分割される前）
+const getNodeText = (node: Element | ElementContent): string => {
+  if (node.type === 'text') return node.value;
+  return 'children' in node ? node.children.map(getNodeText).join('') : '';
+};
+
+// フェンスで指定された言語（<code class="language-xxx">）
+const getCodeLanguage = (pre: Element | undefined) => {
+  const code = pre?.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+  const classNames = code?.properties.className;
+  const languageClass = Array.isArray(classNames)
+    ? classNames.find((c): c is string => typeof c === 'string' && c.startsWith('language-'))
+    : undefined;
+  return languageClass?.slice('language-'.length) ?? '';
+};
+
+// GFM（表・タスクリスト・取り消し線など）と数式（$...$ / $$...$$）
+const remarkPlugins = [remarkGfm, remarkMath];
+// HTMLは先にサニタイズし、その後で数式（KaTeX）とコードのハイライトを適用する
+// コードブロックはフェンスの言語でハイライトする（言語の自動判定はしない）
+const rehypePlugins = [rehypeSanitize, rehypeKatex, rehypeHighlight];
+
+// アシスタントの回答をMarkdownで表示する際の要素ごとのスタイル
+const markdownComponents: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  // タスクリストは行頭記号の代わりにチェックボックスを表示する
+  ul: ({ children, className }) => (
+    <ul className={clsx('mb-2 ml-4', className?.includes('contains-task-list') ? 'list-none' : 'list-disc')}>{children}</ul>
+  ),
+  ol: ({ children }) => <ol className="mb-2 ml-4 list-decimal">{children}</ol>,
+  li: ({ children }) => <li className="mb-1">{children}</li>,
+  code: ({ children, className }) => {
+    // 言語指定のないコードブロックは className がないため、改行の有無でも判定する
+    const isInline = !className && !String(children).includes('\n');
+    return isInline ? (
+      <code className="rounded bg-gray-700/80 px-1.5 py-0.5 text-sm font-mono">{children}</code>
+    ) : (
+      <code className={clsx(className, 'block p-3 text-sm font-mono')}>{children}</code>
+    );
+  },
+  pre: ({ node, children }) => {
+    const language = getCodeLanguage(node);
+    const code = node ? getNodeText(node).replace(/\n$/, '') : '';
+    if (language === 'mermaid') {
+      return <MermaidDiagram code={code} />;
+    }
+    return (
+      <CodeBlock language={language} code={code}>
+        {children}
+      </CodeBlock>
+    );
+  },
+  table: ({ children }) => (
+    <div className="mb-2 overflow-x-auto">
+      <table className="min-w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th className="border border-gray-600 bg-gray-700/50 px-3 py-1.5 text-left font-semibold" style={style}>{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td className="border border-gray-600 px-3 py-1.5" style={style}>{children}</td>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 border-l-4 border-[#10a37f] pl-4 italic text-gray-300">
+      {children}
+    </blockquote>
+  ),
+  h1: ({ children }) => <h1 className="mb-3 text-2xl font-bold text-white">{children}</h1>,
+  h2: ({ children }) => <h2 className="mb-2 text-xl font-bold text-white">{children}</h2>,
+  h3: ({ children }) => <h3 className="mb-2 text-lg font-bold text-white">{children}</h3>,
+};
 
-interface Conversation {
+// ファイルサイズを表示用に整形
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// テキストをファイルとしてダウンロードさせる
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 検索結果の一致箇所を強調表示する
+const renderHighlighted = (text: string, highlights: [number, number][]) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  highlights.forEach(([start, end], i) => {
+    parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={i} className="rounded bg-[#10a37f]/40 px-0.5 text-white">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return parts;
+};
+
+// 会話で表示中の分岐のメッセージ
+const getConversationPath = (conversation: Conversation) =>
+  getActivePath(
+    conversation.messages,
+    conversation.currentLeafId ?? conversation.messages[conversation.messages.length - 1]?.id
+  );
+
+// ログイン前に使っていたlocalStorageのキー
+const LOCAL_CONVERSATIONS_KEY = 'chat-conversations';
+const AUTO_READ_ALOUD_KEY = 'chat-auto-read-aloud';
+const SELECTED_APP_KEY = 'chat-selected-app';
+
+// localStorageから会話履歴を読み込む（ログイン前の履歴）
+const loadLocalConversations = (): Conversation[] => {
+  const saved = localStorage.getItem(LOCAL_CONVERSATIONS_KEY);
+  if (saved) {
+    try {
+      const parsed: Conversation[] = JSON.parse(saved);
+      // 分岐に対応する前の形式（一直線の配列）も読み込めるようにする
+      return parsed.map((conv) => ({ ...conv, messages: normalizeTree(conv.messages) }));
+    } catch (e) {
+      console.error('Failed to load conversations:', e);
+    }
+  }
+  return [];
+};
+
+interface AuthUser {
   id: string;
-  title: string;
-  messages: Message[];
-  createdAt: number;
-  updatedAt: number;
+  email: string;
+  isAdmin?: boolean;
 }
 
 export default function ChatInterface() {
@@ -29,34 +187,212 @@ export default function ChatInterface() {
   const [error, setError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [streamingContent, setStreamingContent] = useState('');
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  // Difyへの接続の再試行・切り替えの状況（最初の回答が届くまで表示する）
+  const [streamStatus, setStreamStatus] = useState<StreamStatus | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
   const [isMac, setIsMac] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [isAuthSubmitting, setIsAuthSubmitting] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [showFileMenu, setShowFileMenu] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // 全文検索
+  const [searchQuery, setSearchQuery] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // タイトルを生成中の会話と、生成したタイトルを表示し始めた会話
+  const [generatingTitleIds, setGeneratingTitleIds] = useState<Set<string>>(new Set());
+  const [revealTitleId, setRevealTitleId] = useState<string | null>(null);
+  // 検索結果から開いたときにスクロールするメッセージ
+  const jumpTargetRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  // サーバーに保存済みの各会話の updatedAt（変更の検出に使う）
+  const syncedRef = useRef<Map<string, number>>(new Map());
+  // 未ログインのときに作った会話のID（localStorageにはこれだけを保存する）
+  const localIdsRef = useRef<Set<string>>(new Set());
+  const currentConversationIdRef = useRef<string | null>(null);
+  // 回答の読み上げ
+  const speech = useSpeechPlayer(setError);
+  const [autoReadAloud, setAutoReadAloud] = useState(false);
+  // 選択できるDifyアプリ（先頭が既定）と、新しい会話に使うアプリ
+  const [apps, setApps] = useState<DifyAppInfo[]>([]);
+  const [selectedAppId, setSelectedAppId] = useState<string | null>(null);
 
-  // localStorageから会話履歴を読み込む
+  // ログイン状態を取得
   useEffect(() => {
-    const saved = localStorage.getItem('chat-conversations');
-    if (saved) {
+    fetch('/api/auth/me')
+      .then((res) => (res.ok ? res.json() : { user: null }))
+      .then((data) => setAuthUser(data.user))
+      .catch((e) => console.error('Failed to load session:', e));
+  }, []);
+
+  // ログイン・ユーザーの切り替えのときだけ実行する処理の依存に使う
+  const userId = authUser?.id;
+
+  useEffect(() => {
+    const localConversations = loadLocalConversations();
+    localConversations.forEach((c) => localIdsRef.current.add(c.id));
+    setConversations(localConversations);
+    setAutoReadAloud(localStorage.getItem(AUTO_READ_ALOUD_KEY) === 'true');
+  }, []);
+
+  const toggleAutoReadAloud = () => {
+    const next = !autoReadAloud;
+    setAutoReadAloud(next);
+    localStorage.setItem(AUTO_READ_ALOUD_KEY, String(next));
+    if (!next) {
+      speech.stop();
+    }
+  };
+
+  // ログインしたらアプリの一覧を取得し、前回選んだアプリ（なくなっていれば既定のアプリ）を選ぶ
+  useEffect(() => {
+    if (!userId) return;
+    fetch('/api/apps')
+      .then((res) => (res.ok ? res.json() : { apps: [] }))
+      .then((data) => {
+        const list: DifyAppInfo[] = data.apps ?? [];
+        const saved = localStorage.getItem(SELECTED_APP_KEY);
+        setApps(list);
+        setSelectedAppId(list.some((app) => app.id === saved) ? saved : data.defaultAppId ?? null);
+      })
+      .catch((e) => console.error('Failed to load apps:', e));
+  }, [userId]);
+
+  useEffect(() => {
+    currentConversationIdRef.current = currentConversationId;
+  }, [currentConversationId]);
+
+  // 会話を切り替えたら読み上げを止める
+  const stopSpeech = speech.stop;
+  useEffect(() => {
+    stopSpeech();
+  }, [currentConversationId, stopSpeech]);
+
+  // ログアウト・セッション切れのとき、他のユーザーの履歴が見えないよう画面から消す
+  const clearSession = useCallback(() => {
+    setAuthUser(null);
+    syncedRef.current.clear();
+    setConversations([]);
+    setCurrentConversationId(null);
+    setMessages([]);
+  }, []);
+
+  // セッション切れの場合はログインを促す
+  const expireSession = useCallback(() => {
+    clearSession();
+    setAuthMode('login');
+    setShowAuthModal(true);
+  }, [clearSession]);
+
+  // 会話の同期に失敗したとき、セッション切れなら再ログインを促す
+  const handleSyncError = useCallback((message: string, e: unknown) => {
+    console.error(message, e);
+    if (e instanceof conversationApi.ConversationApiError && e.status === 401) {
+      expireSession();
+    }
+  }, [expireSession]);
+
+  // サーバーから取得した会話を反映（updatedAt が新しい方を採用）
+  const applyServerConversations = useCallback((serverConversations: Conversation[], localConversations: Conversation[]) => {
+    serverConversations.forEach((c) => syncedRef.current.set(c.id, c.updatedAt));
+    const serverIds = new Set(serverConversations.map((c) => c.id));
+    // サーバーにまだ保存されていないローカルの会話は残す
+    const pending = localConversations.filter(
+      (c) => !serverIds.has(c.id) && syncedRef.current.get(c.id) !== c.updatedAt
+    );
+    const merged = serverConversations.map((serverConv) => {
+      const local = localConversations.find((c) => c.id === serverConv.id);
+      return local && local.updatedAt > serverConv.updatedAt ? local : serverConv;
+    });
+    setConversations([...pending, ...merged]);
+
+    // 表示中の会話が他の端末で更新されていれば表示も更新
+    const current = merged.find((c) => c.id === currentConversationIdRef.current);
+    if (current && serverConversations.includes(current)) {
+      setMessages(getConversationPath(current));
+    }
+  }, []);
+
+  // ログインしたら、ログイン前の履歴を一度だけサーバーに取り込み、サーバーの会話を読み込む
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    (async () => {
+      const localConversations = loadLocalConversations();
       try {
-        const parsed = JSON.parse(saved);
-        setConversations(parsed);
+        if (localConversations.length > 0) {
+          await Promise.all(localConversations.map((conv) => conversationApi.createConversation(conv)));
+          localStorage.removeItem(LOCAL_CONVERSATIONS_KEY);
+          localIdsRef.current.clear();
+        }
+        const serverConversations = await conversationApi.fetchConversations();
+        if (!cancelled) {
+          applyServerConversations(serverConversations, []);
+        }
       } catch (e) {
-        console.error('Failed to load conversations:', e);
+        if (!cancelled) {
+          handleSyncError('Failed to sync conversations:', e);
+        }
       }
-    }
-  }, []);
+    })();
 
-  // 会話履歴をlocalStorageに保存
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, applyServerConversations, handleSyncError]);
+
+  // 他の端末での変更を取り込むため、ウィンドウに戻ったときに再取得
   useEffect(() => {
-    if (conversations.length > 0) {
-      localStorage.setItem('chat-conversations', JSON.stringify(conversations));
+    if (!authUser || isLoading) return;
+    const handleFocus = () => {
+      conversationApi.fetchConversations()
+        .then((serverConversations) => applyServerConversations(serverConversations, conversations))
+        .catch((e) => handleSyncError('Failed to refresh conversations:', e));
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [authUser, isLoading, conversations, applyServerConversations, handleSyncError]);
+
+  // 会話の変更を保存（ログイン中はサーバー、未ログインはlocalStorage）
+  useEffect(() => {
+    if (!authUser) {
+      // サーバーから読み込んだ会話は、次にこのブラウザでログインする別のユーザーに取り込まれないよう保存しない
+      const localConversations = conversations.filter((c) => localIdsRef.current.has(c.id));
+      if (localConversations.length > 0) {
+        localStorage.setItem(LOCAL_CONVERSATIONS_KEY, JSON.stringify(localConversations));
+      }
+      return;
     }
-  }, [conversations]);
+
+    conversations.forEach((conv) => {
+      if (syncedRef.current.get(conv.id) === conv.updatedAt) return;
+      syncedRef.current.set(conv.id, conv.updatedAt);
+      conversationApi.saveConversation(conv)
+        .then(({ conflict, conversation }) => {
+          if (!conflict) return;
+          // 他の端末の方が新しい場合はサーバー側の内容に置き換える
+          syncedRef.current.set(conversation.id, conversation.updatedAt);
+          setConversations((prev) => prev.map((c) => (c.id === conversation.id ? conversation : c)));
+          if (conversation.id === currentConversationIdRef.current) {
+            setMessages(getConversationPath(conversation));
+          }
+        })
+        .catch((e) => {
+          // 次の変更時に再送する
+          syncedRef.current.delete(conv.id);
+          handleSyncError('Failed to save conversation:', e);
+        });
+    });
+  }, [conversations, authUser, handleSyncError]);
 
   // 現在の会話を取得
   const currentConversation = conversations.find(c => c.id === currentConversationId);
@@ -67,6 +403,78 @@ export default function ChatInterface() {
     setMessages([]);
     setInput('');
     setError(null);
+    setEditingMessageId(null);
+  };
+
+  // 会話に使うアプリのID（アプリを記録していない古い会話は undefined のまま送り、サーバーの既定のアプリを使う）
+  const appIdFor = (conversation?: Conversation) =>
+    conversation ? conversation.appId : selectedAppId ?? undefined;
+
+  // 表示中のアプリ（開いている会話のアプリ、なければ新しい会話に使うアプリ）
+  const displayedAppId = (currentConversation ? currentConversation.appId ?? apps[0]?.id : selectedAppId) ?? '';
+
+  // アプリを切り替える。会話の途中なら、その会話は元のアプリのまま新しいチャットを始める
+  const changeApp = (appId: string) => {
+    setSelectedAppId(appId);
+    localStorage.setItem(SELECTED_APP_KEY, appId);
+    if (currentConversation) {
+      startNewChat();
+    }
+  };
+
+  // 表示中の会話をエクスポート
+  const exportConversation = async (format: 'markdown' | 'json' | 'html') => {
+    setShowExportMenu(false);
+    if (!currentConversation) return;
+    const path = getConversationPath(currentConversation);
+
+    if (format === 'markdown') {
+      downloadFile(conversationToMarkdown(currentConversation, path), toExportFileName(currentConversation, 'md'), 'text/markdown;charset=utf-8');
+      return;
+    }
+    if (format === 'json') {
+      downloadFile(conversationToJSON(currentConversation), toExportFileName(currentConversation, 'json'), 'application/json');
+      return;
+    }
+
+    // 印刷用HTMLは新しいタブで開き、ブラウザの印刷からPDFに保存できるようにする
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    const html = conversationToPrintableHtml(currentConversation, path, (markdown) =>
+      renderToStaticMarkup(<ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins}>{markdown}</ReactMarkdown>)
+    );
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+    const printWindow = window.open(url, '_blank');
+    if (printWindow) {
+      printWindow.addEventListener('load', () => printWindow.print());
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } else {
+      // ポップアップがブロックされた場合はファイルとして保存する
+      URL.revokeObjectURL(url);
+      downloadFile(html, toExportFileName(currentConversation, 'html'), 'text/html;charset=utf-8');
+    }
+  };
+
+  // エクスポートしたJSONを読み込み、サイドバーに追加する
+  const importConversation = async (file: File) => {
+    try {
+      const imported = parseConversationExport(await file.text());
+      const conversation: Conversation = {
+        ...imported,
+        messages: normalizeTree(imported.messages),
+        // 既存の会話とIDが重なる場合は別の会話として取り込む
+        ...(conversations.some((c) => c.id === imported.id) && { id: Date.now().toString() }),
+      };
+      if (!authUser) {
+        localIdsRef.current.add(conversation.id);
+      }
+      setConversations((prev) => [conversation, ...prev]);
+      setCurrentConversationId(conversation.id);
+      setMessages(getConversationPath(conversation));
+      setEditingMessageId(null);
+      setError(null);
+    } catch (e) {
+      setError(`会話を読み込めませんでした: ${e instanceof Error ? e.message : String(e)}`);
+    }
   };
 
   // 会話を選択
@@ -74,8 +482,9 @@ export default function ChatInterface() {
     const conversation = conversations.find(c => c.id === id);
     if (conversation) {
       setCurrentConversationId(id);
-      setMessages(conversation.messages);
+      setMessages(getConversationPath(conversation));
       setError(null);
+      setEditingMessageId(null);
     }
   };
 
@@ -86,20 +495,38 @@ export default function ChatInterface() {
     if (currentConversationId === id) {
       startNewChat();
     }
+    if (authUser) {
+      syncedRef.current.delete(id);
+      conversationApi.deleteConversation(id).catch((err) => {
+        handleSyncError('Failed to delete conversation:', err);
+      });
+    }
   };
 
-  // 会話を更新
+  // 会話の名前・ピン留め・フォルダを変更
+  const updateConversationMeta = (id: string, changes: Partial<Pick<Conversation, 'title' | 'titleEdited' | 'pinned' | 'folder'>>) => {
+    setConversations(prev => prev.map(conv => (
+      conv.id === id ? { ...conv, ...changes, updatedAt: Date.now() } : conv
+    )));
+  };
+
+  // サイドバーの並び（ピン留め → フォルダ → 更新日ごと）
+  const conversationGroups = useMemo(() => groupConversations(conversations), [conversations]);
+  const folders = useMemo(() => getFolders(conversations), [conversations]);
+
+  // 会話を更新（表示中の経路をツリーに反映し、その末端を表示中の分岐とする）
   const updateConversation = (id: string, updatedMessages: Message[]) => {
     setConversations(prev => prev.map(conv => {
       if (conv.id === id) {
-        // タイトルを最初のユーザーメッセージから生成
+        // タイトルを最初のユーザーメッセージから生成（名前を変更した会話・生成したタイトルはそのまま）
         const firstUserMessage = updatedMessages.find(m => m.role === 'user');
-        const title = firstUserMessage 
-          ? firstUserMessage.content.substring(0, 30) 
+        const title = firstUserMessage && !conv.titleEdited && !conv.titleGenerated
+          ? firstUserMessage.content.substring(0, 30)
           : conv.title;
         return {
           ...conv,
-          messages: updatedMessages,
+          messages: mergePath(conv.messages, updatedMessages),
+          currentLeafId: updatedMessages[updatedMessages.length - 1]?.id,
           title,
           updatedAt: Date.now(),
         };
@@ -108,6 +535,42 @@ export default function ChatInterface() {
     }));
   };
 
+  // 最初の質問と回答からタイトルを生成する（チャットは待たずに続けられる）
+  // 失敗した場合は先頭30文字のタイトルのまま
+  const generateTitle = async (id: string, question: string, answer: string, difyConversationId?: string, appId?: string) => {
+    setGeneratingTitleIds((prev) => new Set(prev).add(id));
+    try {
+      const response = await fetch('/api/title', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ question, answer, difyConversationId, appId }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      const title: string | null = data.title;
+      if (title) {
+        setConversations((prev) => prev.map((conv) => (
+          conv.id === id && !conv.titleEdited
+            ? { ...conv, title, titleGenerated: true, updatedAt: Date.now() }
+            : conv
+        )));
+        setRevealTitleId(id);
+      }
+    } catch (e) {
+      console.error('Failed to generate title:', e);
+    } finally {
+      setGeneratingTitleIds((prev) => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
   useEffect(() => {
     setIsMac(typeof navigator !== 'undefined' && navigator.platform.includes('Mac'));
   }, []);
@@ -120,88 +583,188 @@ export default function ChatInterface() {
     }
   }, [input]);
 
-  // メッセージが更新されたらスクロール
+  // ストリーミング中の回答を末尾に加えた表示用のメッセージ一覧
+  const displayedMessages = streamingMessage ? [...messages, streamingMessage] : messages;
+
+  // メッセージが更新されたらスクロール（検索結果から開いた場合はそのメッセージまで）
   useEffect(() => {
+    const target = jumpTargetRef.current;
+    if (target) {
+      jumpTargetRef.current = null;
+      document.getElementById(`message-${target}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingMessage]);
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    
-    if (!input.trim() || isLoading) return;
+  // 検索結果から開いたメッセージの強調表示は少し経ったら消す
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
-    // 新しい会話の場合は作成
-    let conversationId = currentConversationId;
-    if (!conversationId) {
-      conversationId = Date.now().toString();
-      const newConversation: Conversation = {
-        id: conversationId,
-        title: input.trim().substring(0, 30) || '新しいチャット',
-        messages: [],
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      };
-      setConversations(prev => [newConversation, ...prev]);
-      setCurrentConversationId(conversationId);
-    }
+  // 検索中だけ索引を作る
+  const isSearching = searchQuery.trim() !== '';
+  const searchIndex = useMemo(
+    () => (isSearching ? buildSearchIndex(conversations) : null),
+    [conversations, isSearching]
+  );
+  const searchResults = useMemo(
+    () => (searchIndex ? searchMessages(searchIndex, searchQuery) : []),
+    [searchIndex, searchQuery]
+  );
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: input.trim(),
-    };
+  // 検索結果のメッセージを含む分岐を開き、そのメッセージまでスクロールする
+  const openSearchResult = (result: SearchResult) => {
+    const conversation = conversations.find((c) => c.id === result.conversationId);
+    if (!conversation) return;
+    const leaf = findLatestLeaf(conversation.messages, result.messageId);
+    setCurrentConversationId(conversation.id);
+    setMessages(getActivePath(conversation.messages, leaf?.id));
+    setError(null);
+    setEditingMessageId(null);
+    jumpTargetRef.current = result.messageId;
+    setHighlightedMessageId(result.messageId);
+  };
 
-    setMessages((prev) => {
-      const updated = [...prev, userMessage];
-      // 会話履歴を更新
-      if (conversationId) {
-        updateConversation(conversationId, updated);
-      }
-      return updated;
-    });
-    setInput('');
+  // 指定した経路（末尾はユーザーメッセージ）に対する回答を生成する
+  const requestAnswer = async (path: Message[], conversationId: string, filesToSend: File[] = []) => {
+    setMessages(path);
+    updateConversation(conversationId, path);
     setIsLoading(true);
     setError(null);
-    setStreamingContent('');
+    setStreamingMessage(null);
+    setStreamStatus(null);
+    const parentId = path[path.length - 1].id;
+    const assistantMessageId = `${Date.now()}-assistant`;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
-    // テキストエリアの高さをリセット
-    if (textareaRef.current) {
-      textareaRef.current.style.height = 'auto';
-    }
+    let accumulatedContent = '';
+    let steps: WorkflowStep[] = [];
+    let citations: Citation[] = [];
+    let difyMessageId: string | undefined;
+    let finalized = false;
+    const conversation = conversations.find((c) => c.id === conversationId);
+    // チャットフローでは分岐元の回答のDify側の会話とメッセージに続ける（最初の質問は新しい会話）
+    // 分岐元を指定しないとDifyは会話の最新のメッセージに続けるため、再生成や編集で捨てた分岐が記憶に残ってしまう
+    const branchPoint = path.length > 1 ? path[path.length - 2] : undefined;
+    let difyConversationId = branchPoint && (branchPoint.difyConversationId ?? conversation?.difyConversationId);
+    // この回答で使われたDify側の会話ID（回答に記録する）
+    let answeredConversationId: string | undefined;
+    const appId = appIdFor(conversation);
 
-    try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [...messages, userMessage],
-          user: 'user-123',
-        }),
+    const updateStreamingMessage = () => {
+      setStreamingMessage({
+        id: assistantMessageId,
+        role: 'assistant',
+        content: accumulatedContent,
+        ...(steps.length > 0 && { steps }),
       });
+    };
+
+    // ストリーミング中の吹き出しと同じIDで確定させ、再マウントによるちらつきを防ぐ
+    const finalizeAssistantMessage = (content: string, stopped = false) => {
+      if (finalized) return;
+      finalized = true;
+      abortControllerRef.current = null;
+      // 完了通知が来なかったステップは停止扱いにする
+      steps = steps.map((step) => (step.status === 'running' ? { ...step, status: 'stopped' } : step));
+      if (content.trim()) {
+        const assistantMessage: Message = {
+          id: assistantMessageId,
+          role: 'assistant',
+          content: content.trim(),
+          parentId,
+          ...(stopped && { stopped: true }),
+          ...(steps.length > 0 && { steps }),
+          ...(citations.length > 0 && { citations }),
+          ...(difyMessageId && { difyMessageId }),
+          ...(answeredConversationId && { difyConversationId: answeredConversationId }),
+        };
+        setMessages((prev) => {
+          const updated = [...prev, assistantMessage];
+          // 会話履歴を更新
+          if (conversationId) {
+            updateConversation(conversationId, updated);
+          }
+          return updated;
+        });
+        // 最初の回答が揃ったらタイトルを生成する
+        if (!stopped && path.length === 1 && !conversation?.titleEdited && !conversation?.titleGenerated) {
+          generateTitle(conversationId, path[0].content, assistantMessage.content, difyConversationId, appId);
+        }
+        // 自動読み上げがオンなら、最後まで生成できた回答を読み上げる
+        if (autoReadAloud && !stopped) {
+          speech.play(assistantMessageId, assistantMessage.content, appId);
+        }
+      }
+      setStreamingMessage(null);
+      setIsLoading(false);
+    };
+
+    // サーバーのログと照合できるよう、エラーにはリクエストIDを添える
+    let requestId: string | null = null;
+    const withRequestId = (message: string) => (requestId ? `${message}\n\nリクエストID: ${requestId}` : message);
+
+    // 再生成・編集では、質問に添付してアップロード済みのファイルを送り直す
+    const uploadedFiles = filesToSend.length === 0
+      ? path[path.length - 1].attachments?.filter((a) => a.uploadFileId)
+      : undefined;
+
+    try {
+      const payload = {
+        messages: path.map(({ role, content }) => ({ role, content })),
+        ...(uploadedFiles && uploadedFiles.length > 0 && { uploadedFiles }),
+        conversationId: difyConversationId,
+        ...(difyConversationId && branchPoint?.difyMessageId && { parentMessageId: branchPoint.difyMessageId }),
+        appId,
+        // 利用状況の記録に使う
+        localConversationId: conversationId,
+      };
+
+      // 添付ファイルがある場合はマルチパートで送信
+      let response: Response;
+      if (filesToSend.length > 0) {
+        const formData = new FormData();
+        formData.append('payload', JSON.stringify(payload));
+        filesToSend.forEach((file) => formData.append('files', file, file.name));
+        response = await fetch('/api/chat', {
+          method: 'POST',
+          body: formData,
+          signal: abortController.signal,
+        });
+      } else {
+        response = await fetch('/api/chat', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(payload),
+          signal: abortController.signal,
+        });
+      }
+
+      requestId = response.headers.get('X-Request-Id');
 
       if (!response.ok) {
-        // レスポンス情報を先に取得（response.text()を呼ぶ前に）
         const status = response.status;
         const statusText = response.statusText;
-        const responseUrl = response.url;
+
+        if (status === 401) {
+          expireSession();
+        }
         
         let errorMessage = `HTTP ${status}: ${statusText || 'Unknown error'}`;
         let errorDetails = '';
-        let errorData = null;
-        
+
         try {
           const errorText = await response.text();
-          console.log('[DEBUG] Error response text:', errorText);
-          console.log('[DEBUG] Response status:', status);
-          console.log('[DEBUG] Response statusText:', statusText);
-          
           if (errorText && errorText.trim()) {
             errorDetails = errorText;
             try {
-              errorData = JSON.parse(errorText);
-              console.log('[DEBUG] Parsed error data:', errorData);
+              const errorData = JSON.parse(errorText);
               errorMessage = errorData.error || errorData.message || errorData.details || errorMessage;
               if (errorData.details) {
                 errorDetails = typeof errorData.details === 'string' 
@@ -210,9 +773,8 @@ export default function ChatInterface() {
               } else if (errorData.message) {
                 errorDetails = errorData.message;
               }
-            } catch (e) {
+            } catch {
               // JSONではない場合はそのまま使用
-              console.log('[DEBUG] Error text is not JSON, using as-is');
               errorMessage = errorText;
               errorDetails = errorText;
             }
@@ -222,11 +784,20 @@ export default function ChatInterface() {
             errorDetails = `サーバーからエラーレスポンスが返されましたが、詳細情報がありません。`;
           }
         } catch (e) {
-          console.error('[DEBUG] Error reading response:', e);
           errorMessage = `HTTP ${status}: ${statusText || 'Unknown error'}`;
           errorDetails = e instanceof Error ? e.message : String(e);
         }
         
+        // 回数制限・トークン上限に達した場合は、再試行できるまでの目安を示す
+        if (status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After')) || 60;
+          const wait = retryAfter < 60
+            ? `${retryAfter}秒`
+            : retryAfter < 3600 ? `${Math.ceil(retryAfter / 60)}分` : `${Math.ceil(retryAfter / 3600)}時間`;
+          errorDetails = errorMessage;
+          errorMessage = `利用上限に達しました。約${wait}後にもう一度お試しください。`;
+        }
+
         // エラーメッセージが空の場合はフォールバック
         if (!errorMessage || errorMessage.trim() === '') {
           errorMessage = `HTTP ${status}: ${statusText || 'Unknown error'}`;
@@ -235,162 +806,255 @@ export default function ChatInterface() {
         const fullErrorMessage = errorDetails && errorDetails.trim()
           ? `${errorMessage}\n\n詳細: ${errorDetails}`
           : errorMessage;
-        
-        // デバッグ用のログ
-        const errorLogObject = {
-          status: status,
-          statusText: statusText || '(empty)',
-          errorMessage: errorMessage || '(empty)',
-          errorDetails: errorDetails || '(empty)',
-          errorData: errorData || '(null)',
-          url: responseUrl || '(empty)',
-        };
-        
-        console.error('[DEBUG] API Error Details:', errorLogObject);
-        console.error('[DEBUG] Full error message:', fullErrorMessage);
-        
-        setError(fullErrorMessage);
+
+        setError(withRequestId(fullErrorMessage));
         setIsLoading(false);
-        setStreamingContent('');
+        setStreamingMessage(null);
+        abortControllerRef.current = null;
         return;
       }
 
       const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
 
       if (!reader) {
         throw new Error('No response body');
       }
 
-      let accumulatedContent = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) {
-          // ストリーミング完了後、メッセージを確実に保存
-          if (accumulatedContent.trim()) {
-            const assistantMessage: Message = {
-              id: Date.now().toString(),
-              role: 'assistant',
-              content: accumulatedContent.trim(),
-            };
-            setMessages((prev) => {
-              const updated = [...prev, assistantMessage];
-              // 会話履歴を更新
-              if (conversationId) {
-                updateConversation(conversationId, updated);
-              }
-              return updated;
-            });
-          }
-          setStreamingContent('');
-          setIsLoading(false);
-          break;
+      for await (const event of readSSEStream(reader)) {
+        if (event.data === '[DONE]') {
+          finalizeAssistantMessage(accumulatedContent);
+          return;
         }
 
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              if (accumulatedContent.trim()) {
-                const assistantMessage: Message = {
-                  id: Date.now().toString(),
-                  role: 'assistant',
-                  content: accumulatedContent.trim(),
-                };
-                setMessages((prev) => {
-                  const updated = [...prev, assistantMessage];
-                  // 会話履歴を更新
-                  if (conversationId) {
-                    updateConversation(conversationId, updated);
-                  }
-                  return updated;
-                });
-              }
-              setStreamingContent('');
-              setIsLoading(false);
-              return;
-            }
+        let parsed: ChatStreamPayload;
+        try {
+          parsed = JSON.parse(event.data);
+        } catch {
+          // JSONパースエラーは無視
+          continue;
+        }
 
-            try {
-              const parsed = JSON.parse(data);
-              
-              // doneが来たら最終メッセージを保存して終了
-              if (parsed.done) {
-                // doneが来た時、contentが一緒に来ている場合はそれを使用、そうでなければaccumulatedContentを使用
-                const finalContent = parsed.content || accumulatedContent;
-                if (finalContent && finalContent.trim()) {
-                  const assistantMessage: Message = {
-                    id: Date.now().toString(),
-                    role: 'assistant',
-                    content: finalContent.trim(),
-                  };
-                  setMessages((prev) => {
-                    const updated = [...prev, assistantMessage];
-                    // 会話履歴を更新
-                    if (conversationId) {
-                      updateConversation(conversationId, updated);
-                    }
-                    return updated;
-                  });
-                }
-                setStreamingContent('');
-                setIsLoading(false);
-                return;
-              }
-              
-              // contentが来たら更新
-              // Dify APIのanswerフィールドは累積テキストを返すはずだが、
-              // 実際のレスポンスを確認して適切に処理する
-              if (parsed.content !== undefined && parsed.content !== null) {
-                const newContent = parsed.content;
-                // 新しいコンテンツが既存のコンテンツより長い場合、または既存のコンテンツの続きの場合
-                if (newContent.length >= accumulatedContent.length || newContent.startsWith(accumulatedContent)) {
-                  // 累積テキストとして扱う
-                  accumulatedContent = newContent;
-                } else {
-                  // 差分として扱う（追加）
-                  accumulatedContent += newContent;
-                }
-              }
-            } catch (e) {
-              // JSONパースエラーは無視
-            }
-          }
+        // チャットフローの会話IDを保存（次の質問で同じ会話として続ける）
+        if (parsed.conversationId) {
+          difyConversationId = parsed.conversationId;
+          answeredConversationId = parsed.conversationId;
+          setConversations((prev) => prev.map((c) => (c.id === conversationId ? { ...c, difyConversationId } : c)));
         }
-      }
 
-      // 念のため、最後にもメッセージを保存（まだ保存されていない場合）
-      if (accumulatedContent.trim()) {
-        setMessages((prev) => {
-          // 最後のメッセージが同じでない場合のみ追加
-          const lastMessage = prev[prev.length - 1];
-          if (!lastMessage || lastMessage.role !== 'assistant' || lastMessage.content !== accumulatedContent.trim()) {
-            const updated = [...prev, {
-              id: Date.now().toString(),
-              role: 'assistant' as const,
-              content: accumulatedContent.trim(),
-            }];
-            // 会話履歴を更新
-            if (conversationId) {
-              updateConversation(conversationId, updated);
-            }
+        if (parsed.status) {
+          setStreamStatus(parsed.status);
+          continue;
+        }
+
+        // アップロードしたファイルのidを質問の添付に記録する（再生成で送り直す）
+        if (parsed.uploadFileIds) {
+          const ids = parsed.uploadFileIds;
+          setMessages((prev) => {
+            const updated = prev.map((m) => (m.id === parentId && m.attachments
+              ? { ...m, attachments: m.attachments.map((a, i) => (ids[i] ? { ...a, uploadFileId: ids[i] } : a)) }
+              : m));
+            updateConversation(conversationId, updated);
             return updated;
+          });
+          continue;
+        }
+
+        // ワークフローの進行状況（同じ実行IDのステップは上書き）
+        if (parsed.step) {
+          const step = parsed.step;
+          steps = steps.some((s) => s.id === step.id)
+            ? steps.map((s) => (s.id === step.id ? step : s))
+            : [...steps, step];
+          updateStreamingMessage();
+          continue;
+        }
+
+        // ストリーム中のエラー
+        if (parsed.error) {
+          setError(withRequestId(parsed.error));
+        }
+
+        // 評価の送信に使うDify側のメッセージID
+        if (parsed.messageId) {
+          difyMessageId = parsed.messageId;
+        }
+
+        // 引用元の資料（終了イベントと一緒に届く）
+        if (parsed.citations) {
+          citations = parsed.citations;
+        }
+
+        // doneが来たら最終メッセージを保存して終了
+        if (parsed.done) {
+          // doneが来た時、contentが一緒に来ている場合はそれを使用、そうでなければaccumulatedContentを使用
+          finalizeAssistantMessage(parsed.content || accumulatedContent);
+          return;
+        }
+
+        // contentが来たら更新
+        // Dify APIのanswerフィールドは累積テキストを返すはずだが、
+        // 実際のレスポンスを確認して適切に処理する
+        if (parsed.content !== undefined && parsed.content !== null) {
+          const newContent = parsed.content;
+          // 新しいコンテンツが既存のコンテンツの続きの場合は累積テキストとして扱う
+          if (newContent.startsWith(accumulatedContent)) {
+            accumulatedContent = newContent;
+          } else {
+            // 差分として扱う（追加）
+            accumulatedContent += newContent;
           }
-          return prev;
-        });
+          updateStreamingMessage();
+        }
       }
-      setIsLoading(false);
+
+      // ストリーミング完了後、メッセージを確実に保存
+      finalizeAssistantMessage(accumulatedContent);
     } catch (err) {
-      console.error('Error:', err);
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      // 停止ボタンによる中断の場合は途中までの回答を残す
+      if (abortController.signal.aborted) {
+        finalizeAssistantMessage(accumulatedContent, true);
+        return;
+      }
+      console.error('Chat request failed:', err, requestId && `(request ID: ${requestId})`);
+      setError(withRequestId(err instanceof Error ? err.message : 'An error occurred'));
       setIsLoading(false);
-      setStreamingContent('');
+      setStreamingMessage(null);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    
+    if (!input.trim() || isLoading) return;
+
+    // 未ログインの場合はログインを促す（入力内容は残す）
+    if (!authUser) {
+      setAuthMode('login');
+      setShowAuthModal(true);
+      return;
+    }
+
+    // 新しい会話の場合は作成
+    let conversationId = currentConversationId;
+    if (!conversationId) {
+      conversationId = Date.now().toString();
+      const newConversation: Conversation = {
+        id: conversationId,
+        title: input.trim().substring(0, 30) || '新しいチャット',
+        messages: [],
+        ...(selectedAppId && { appId: selectedAppId }),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      setConversations(prev => [newConversation, ...prev]);
+      setCurrentConversationId(conversationId);
     }
+
+    const filesToSend = selectedFiles;
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: input.trim(),
+      parentId: messages.length > 0 ? messages[messages.length - 1].id : null,
+      ...(filesToSend.length > 0 && {
+        attachments: filesToSend.map((file) => ({
+          name: file.name,
+          size: file.size,
+          mimeType: file.type,
+        })),
+      }),
+    };
+
+    setInput('');
+    setSelectedFiles([]);
+
+    // テキストエリアの高さをリセット
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+    }
+
+    await requestAnswer([...messages, userMessage], conversationId, filesToSend);
+  };
+
+  // 質問の添付ファイルがすべてアップロード済みなら送り直せる（以前の会話など、idのないファイルは送り直せない）
+  const canResendAttachments = (message: Message | undefined) =>
+    message?.attachments?.every((a) => a.uploadFileId) ?? true;
+  const canRegenerate = (index: number) => canResendAttachments(messages[index - 1]);
+
+  // アシスタントの回答を再生成（元の回答は兄弟として残る）
+  const regenerateAnswer = (index: number) => {
+    if (isLoading || !currentConversationId || !canRegenerate(index)) return;
+    requestAnswer(messages.slice(0, index), currentConversationId);
+  };
+
+  // ユーザーメッセージを編集して、その位置から送り直す
+  const submitEdit = (index: number) => {
+    const original = messages[index];
+    const content = editingContent.trim();
+    if (!content || isLoading || !currentConversationId || !canResendAttachments(original)) return;
+
+    // 添付ファイルは引き継ぎ、アップロード済みのものを送り直す
+    const editedMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      parentId: original.parentId ?? null,
+      ...(original.attachments && { attachments: original.attachments }),
+    };
+    setEditingMessageId(null);
+    requestAnswer([...messages.slice(0, index), editedMessage], currentConversationId);
+  };
+
+  // 兄弟メッセージ（別の回答・編集前の質問）に切り替える
+  const switchBranch = (message: Message, direction: -1 | 1) => {
+    if (isLoading || !currentConversation) return;
+    const tree = currentConversation.messages;
+    const siblings = getSiblings(tree, message);
+    const target = siblings[siblings.findIndex((m) => m.id === message.id) + direction];
+    if (!target) return;
+
+    const path = getActivePath(tree, findLatestLeaf(tree, target.id)?.id);
+    setMessages(path);
+    updateConversation(currentConversation.id, path);
+  };
+
+  // 回答への評価をDifyに送り、メッセージに保存する（null は取り消し）
+  const submitFeedback = async (message: Message, feedback: Feedback | null) => {
+    const conversationId = currentConversationId;
+    if (!message.difyMessageId || !conversationId) return;
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messageId: message.difyMessageId,
+          rating: feedback?.rating ?? null,
+          comment: feedback?.comment,
+          appId: appIdFor(currentConversation),
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+    } catch (e) {
+      setError(`評価を送信できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+      throw e;
+    }
+
+    setMessages((prev) => {
+      const updated = prev.map((m) => (m.id === message.id ? { ...m, feedback: feedback ?? undefined } : m));
+      updateConversation(conversationId, updated);
+      return updated;
+    });
+  };
+
+  // 回答の生成を停止
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
@@ -402,17 +1066,53 @@ export default function ChatInterface() {
     // 単独のEnterキーは改行として扱う（デフォルト動作）
   };
 
-  const handleAuthSubmit = (e: FormEvent<HTMLFormElement>) => {
+  const handleAuthSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     const email = formData.get('email') as string;
     const password = formData.get('password') as string;
-    
-    // TODO: 認証処理を実装
-    console.log('Auth:', { mode: authMode, email, password });
-    
-    // モーダルを閉じる
-    setShowAuthModal(false);
+    const confirmPassword = formData.get('confirmPassword') as string | null;
+
+    if (authMode === 'signup' && password !== confirmPassword) {
+      setAuthError('パスワードが一致しません');
+      return;
+    }
+
+    setIsAuthSubmitting(true);
+    setAuthError(null);
+    try {
+      const response = await fetch(`/api/auth/${authMode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password, ...(authMode === 'signup' && { confirmPassword }) }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setAuthError(data.error || `HTTP ${response.status}`);
+        return;
+      }
+
+      setAuthUser(data.user);
+      // モーダルを閉じる
+      setShowAuthModal(false);
+      setError(null);
+    } catch (err) {
+      setAuthError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsAuthSubmitting(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (e) {
+      console.error('Logout failed:', e);
+    }
+    clearSession();
+    startNewChat();
   };
 
   // ESCキーでモーダルを閉じる
@@ -425,11 +1125,14 @@ export default function ChatInterface() {
         if (showFileMenu) {
           setShowFileMenu(false);
         }
+        if (showExportMenu) {
+          setShowExportMenu(false);
+        }
       }
     };
     window.addEventListener('keydown', handleEscape);
     return () => window.removeEventListener('keydown', handleEscape);
-  }, [showAuthModal, showFileMenu]);
+  }, [showAuthModal, showFileMenu, showExportMenu]);
 
   // メニューの外側をクリックしたら閉じる
   useEffect(() => {
@@ -442,10 +1145,13 @@ export default function ChatInterface() {
           setShowFileMenu(false);
         }
       }
+      if (showExportMenu && !(e.target as HTMLElement).closest('[data-export-menu]')) {
+        setShowExportMenu(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, [showFileMenu]);
+  }, [showFileMenu, showExportMenu]);
 
   return (
     <div className="flex h-screen bg-gradient-to-b from-[#212121] via-[#2d2d3a] to-[#212121] text-white">
@@ -470,48 +1176,104 @@ export default function ChatInterface() {
               <Plus className="h-5 w-5" />
               <span>新しいチャット</span>
             </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="mt-2 w-full flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:bg-gray-700/50 hover:text-gray-200 transition-colors"
+            >
+              <Upload className="h-4 w-4" />
+              <span>会話を読み込む（JSON）</span>
+            </button>
+            <div className="relative mt-2">
+              <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    setSearchQuery('');
+                  }
+                }}
+                placeholder="会話を検索"
+                className="w-full rounded-lg border border-gray-700/50 bg-[#2d2d3a] py-2 pl-9 pr-3 text-sm text-gray-200 placeholder-gray-500 focus:border-[#10a37f]/50 focus:outline-none"
+                aria-label="会話を検索"
+              />
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  importConversation(file);
+                }
+                // 同じファイルを再度選択できるようにリセット
+                e.target.value = '';
+              }}
+            />
           </div>
 
         {/* チャット履歴リスト */}
         <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-transparent p-2">
-          {conversations.length === 0 ? (
+          {isSearching ? (
+            searchResults.length === 0 ? (
+              <div className="text-center text-gray-500 text-sm mt-8 px-4">
+                <Search className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>一致するメッセージがありません</p>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {searchResults.map((result) => (
+                  <button
+                    key={`${result.conversationId}-${result.messageId}`}
+                    type="button"
+                    onClick={() => openSearchResult(result)}
+                    className="w-full rounded-lg p-3 text-left transition-all hover:bg-[#2d2d3a]/50"
+                  >
+                    <p className="text-xs font-medium text-gray-400 truncate">
+                      {result.conversationTitle}
+                      <span className="ml-1 text-gray-500">・{result.role === 'user' ? 'あなた' : 'AI'}</span>
+                    </p>
+                    <p className="mt-1 text-sm text-gray-200 line-clamp-3 break-words">
+                      {renderHighlighted(result.snippet, result.highlights)}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )
+          ) : conversations.length === 0 ? (
             <div className="text-center text-gray-500 text-sm mt-8 px-4">
               <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
               <p>チャット履歴がありません</p>
               <p className="text-xs mt-1">新しいチャットを開始してください</p>
             </div>
           ) : (
-            <div className="space-y-1">
-              {conversations.map((conv) => (
-                <div
-                  key={conv.id}
-                  onClick={() => selectConversation(conv.id)}
-                  className={clsx(
-                    'group relative flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-all',
-                    currentConversationId === conv.id
-                      ? 'bg-[#2d2d3a] border border-[#10a37f]/50'
-                      : 'hover:bg-[#2d2d3a]/50'
-                  )}
-                >
-                  <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-400" />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-gray-200 truncate">
-                      {conv.title}
-                    </p>
-                    <p className="text-xs text-gray-500 mt-0.5">
-                      {new Date(conv.updatedAt).toLocaleDateString('ja-JP', {
-                        month: 'short',
-                        day: 'numeric',
-                      })}
-                    </p>
+            <div className="space-y-4">
+              {conversationGroups.map((group) => (
+                <div key={group.key}>
+                  <p className="flex items-center gap-1.5 px-3 pb-1 text-xs font-semibold text-gray-500">
+                    {group.key.startsWith('folder:') && <Folder className="h-3.5 w-3.5" />}
+                    {group.label}
+                  </p>
+                  <div className="space-y-1">
+                    {group.conversations.map((conv) => (
+                      <ConversationListItem
+                        key={conv.id}
+                        conversation={conv}
+                        isActive={currentConversationId === conv.id}
+                        isGeneratingTitle={generatingTitleIds.has(conv.id)}
+                        revealTitle={revealTitleId === conv.id}
+                        folders={folders}
+                        onSelect={() => selectConversation(conv.id)}
+                        onRename={(title) => updateConversationMeta(conv.id, { title, titleEdited: true })}
+                        onTogglePin={() => updateConversationMeta(conv.id, { pinned: !conv.pinned })}
+                        onMoveToFolder={(folder) => updateConversationMeta(conv.id, { folder })}
+                        onDelete={(e) => deleteConversation(conv.id, e)}
+                      />
+                    ))}
                   </div>
-                  <button
-                    onClick={(e) => deleteConversation(conv.id, e)}
-                    className="opacity-0 group-hover:opacity-100 flex-shrink-0 p-1.5 rounded hover:bg-gray-700/50 transition-opacity"
-                    aria-label="削除"
-                  >
-                    <Trash2 className="h-4 w-4 text-gray-400 hover:text-red-400" />
-                  </button>
                 </div>
               ))}
             </div>
@@ -520,13 +1282,40 @@ export default function ChatInterface() {
 
         {/* サイドバーフッター */}
         <div className="p-4 border-t border-gray-700/50">
-          <button
-            onClick={() => setShowAuthModal(true)}
-            className="w-full flex items-center gap-2 px-4 py-2.5 rounded-lg bg-gray-700/50 hover:bg-gray-600/50 transition-colors text-gray-300"
-          >
-            <User className="h-5 w-5" />
-            <span>ログイン</span>
-          </button>
+          {authUser ? (
+            <div className="flex items-center gap-2 px-2 text-gray-300">
+              <User className="h-5 w-5 flex-shrink-0" />
+              <span className="flex-1 min-w-0 truncate text-sm" title={authUser.email}>{authUser.email}</span>
+              {authUser.isAdmin && (
+                <Link
+                  href="/admin/usage"
+                  className="flex-shrink-0 p-1.5 rounded hover:bg-gray-700/50 transition-colors"
+                  aria-label="利用状況"
+                  title="利用状況"
+                >
+                  <BarChart3 className="h-4 w-4 text-gray-400" />
+                </Link>
+              )}
+              <button
+                onClick={handleLogout}
+                className="flex-shrink-0 p-1.5 rounded hover:bg-gray-700/50 transition-colors"
+                aria-label="ログアウト"
+              >
+                <LogOut className="h-4 w-4 text-gray-400" />
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => {
+                setAuthError(null);
+                setShowAuthModal(true);
+              }}
+              className="w-full flex items-center gap-2 px-4 py-2.5 rounded-lg bg-gray-700/50 hover:bg-gray-600/50 transition-colors text-gray-300"
+            >
+              <User className="h-5 w-5" />
+              <span>ログイン</span>
+            </button>
+          )}
         </div>
       </div>
       )}
@@ -561,13 +1350,75 @@ export default function ChatInterface() {
                 NITTONO社専用状況適応謝罪AI
               </h1>
             </div>
+            {apps.length > 1 && (
+              <AppPicker apps={apps} value={displayedAppId} onChange={changeApp} disabled={isLoading} />
+            )}
+            {currentConversation && (
+              <div className="relative ml-auto" data-export-menu>
+                <button
+                  type="button"
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm text-gray-400 hover:bg-gray-700/50 hover:text-gray-200 transition-colors"
+                  aria-haspopup="menu"
+                  aria-expanded={showExportMenu}
+                >
+                  <Download className="h-4 w-4" />
+                  <span className="hidden sm:inline">エクスポート</span>
+                </button>
+                {showExportMenu && (
+                  <div className="absolute right-0 top-full mt-2 w-56 rounded-lg border border-gray-700/50 bg-[#2d2d3a] shadow-xl overflow-hidden z-20" role="menu">
+                    <button
+                      type="button"
+                      onClick={() => exportConversation('markdown')}
+                      className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm text-gray-200 hover:bg-gray-700/50 transition-colors"
+                      role="menuitem"
+                    >
+                      <FileText className="h-4 w-4 text-gray-400" />
+                      Markdown（.md）
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => exportConversation('json')}
+                      className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm text-gray-200 hover:bg-gray-700/50 transition-colors"
+                      role="menuitem"
+                    >
+                      <FileJson className="h-4 w-4 text-gray-400" />
+                      JSON（読み込み用）
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => exportConversation('html')}
+                      className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm text-gray-200 hover:bg-gray-700/50 transition-colors"
+                      role="menuitem"
+                    >
+                      <Printer className="h-4 w-4 text-gray-400" />
+                      印刷・PDF用に表示
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={toggleAutoReadAloud}
+              className={clsx(
+                !currentConversation && 'ml-auto',
+                'flex items-center gap-2 rounded-lg px-3 py-2 text-sm transition-colors',
+                autoReadAloud ? 'bg-[#10a37f]/20 text-[#10a37f] hover:bg-[#10a37f]/30' : 'text-gray-400 hover:bg-gray-700/50 hover:text-gray-200'
+              )}
+              aria-pressed={autoReadAloud}
+              title="回答の生成が終わったら自動で読み上げます"
+            >
+              {autoReadAloud ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+              <span className="hidden sm:inline">自動読み上げ</span>
+            </button>
           </div>
         </header>
 
         {/* メッセージエリア */}
         <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-transparent">
           <div className="mx-auto max-w-3xl px-4 py-8">
-          {messages.length === 0 && !isLoading && (
+          {displayedMessages.length === 0 && !isLoading && (
             <div className="flex h-full min-h-[60vh] items-center justify-center">
               <div className="text-center text-gray-400 animate-fade-in">
                 <div className="mb-6 flex justify-center">
@@ -589,82 +1440,244 @@ export default function ChatInterface() {
             </div>
           )}
 
-          {messages.map((message, index) => (
-            <div
-              key={message.id}
-              className={clsx(
-                'mb-6 flex gap-3 animate-fade-in',
-                message.role === 'user' ? 'justify-end' : 'justify-start'
-              )}
-              style={{ animationDelay: `${index * 50}ms` }}
-            >
-              {message.role === 'assistant' && (
-                <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] shadow-lg ring-2 ring-[#10a37f]/20">
-                  <Bot className="h-5 w-5 text-white" />
-                </div>
-              )}
+          {displayedMessages.map((message, index) => {
+            const isStreaming = message.id === streamingMessage?.id;
+            const siblings = !isStreaming && currentConversation
+              ? getSiblings(currentConversation.messages, message)
+              : [];
+            const siblingIndex = siblings.findIndex((m) => m.id === message.id);
+            const isEditing = editingMessageId === message.id;
 
+            return (
               <div
+                key={message.id}
+                id={`message-${message.id}`}
                 className={clsx(
-                  'max-w-[85%] rounded-2xl px-5 py-3.5 shadow-lg transition-all hover:shadow-xl',
-                  message.role === 'user'
-                    ? 'bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] text-white'
-                    : 'bg-[#444654] text-gray-100 border border-gray-700/50'
+                  'group mb-6 flex gap-3 animate-fade-in',
+                  message.role === 'user' ? 'justify-end' : 'justify-start'
                 )}
+                style={{ animationDelay: `${index * 50}ms` }}
               >
-                {message.role === 'user' ? (
-                  <p className="whitespace-pre-wrap break-words">{message.content}</p>
-                ) : (
-                  <div className="prose prose-invert max-w-none break-words">
-                    <ReactMarkdown
-                      components={{
-                        p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                        ul: ({ children }) => <ul className="mb-2 ml-4 list-disc">{children}</ul>,
-                        ol: ({ children }) => <ol className="mb-2 ml-4 list-decimal">{children}</ol>,
-                        li: ({ children }) => <li className="mb-1">{children}</li>,
-                      code: ({ children, className }) => {
-                        const isInline = !className;
-                        return isInline ? (
-                          <code className="rounded bg-gray-700/80 px-1.5 py-0.5 text-sm font-mono">{children}</code>
-                        ) : (
-                          <code className="block rounded-lg bg-gray-700/80 p-3 text-sm font-mono">{children}</code>
-                        );
-                      },
-                      pre: ({ children }) => (
-                        <pre className="mb-2 overflow-x-auto rounded-lg bg-gray-700/80 p-3">{children}</pre>
-                      ),
-                      blockquote: ({ children }) => (
-                        <blockquote className="my-2 border-l-4 border-[#10a37f] pl-4 italic text-gray-300">
-                          {children}
-                        </blockquote>
-                      ),
-                      h1: ({ children }) => <h1 className="mb-3 text-2xl font-bold text-white">{children}</h1>,
-                      h2: ({ children }) => <h2 className="mb-2 text-xl font-bold text-white">{children}</h2>,
-                      h3: ({ children }) => <h3 className="mb-2 text-lg font-bold text-white">{children}</h3>,
-                      }}
-                    >
-                      {message.content}
-                    </ReactMarkdown>
+                {message.role === 'assistant' && (
+                  <div
+                    className={clsx(
+                      'flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] shadow-lg ring-2 ring-[#10a37f]/20',
+                      isStreaming && 'animate-pulse'
+                    )}
+                  >
+                    <Bot className="h-5 w-5 text-white" />
                   </div>
                 )}
-              </div>
 
-              {message.role === 'user' && (
-                <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] shadow-lg ring-2 ring-[#10a37f]/20">
-                  <User className="h-5 w-5 text-white" />
+                <div
+                  className={clsx(
+                    'flex max-w-[85%] flex-col',
+                    message.role === 'user' ? 'items-end' : 'items-start',
+                    isEditing && 'w-full'
+                  )}
+                >
+                  <div
+                    className={clsx(
+                      'rounded-2xl px-5 py-3.5 shadow-lg transition-all hover:shadow-xl',
+                      message.role === 'user'
+                        ? 'bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] text-white'
+                        : 'bg-[#444654] text-gray-100 border border-gray-700/50',
+                      isEditing && 'w-full',
+                      message.id === highlightedMessageId && 'ring-2 ring-yellow-400/80'
+                    )}
+                  >
+                    {isEditing ? (
+                      <div>
+                        <textarea
+                          value={editingContent}
+                          onChange={(e) => setEditingContent(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                              e.preventDefault();
+                              submitEdit(index);
+                            }
+                          }}
+                          className="w-full resize-none rounded-lg bg-black/20 p-2 text-white focus:outline-none"
+                          rows={3}
+                          autoFocus
+                        />
+                        <div className="mt-2 flex justify-end gap-2 text-sm">
+                          <button
+                            type="button"
+                            onClick={() => setEditingMessageId(null)}
+                            className="rounded-lg px-3 py-1.5 hover:bg-black/20 transition-colors"
+                          >
+                            キャンセル
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => submitEdit(index)}
+                            disabled={!editingContent.trim()}
+                            className="rounded-lg bg-white px-3 py-1.5 font-semibold text-[#0d8f6e] hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                          >
+                            送信
+                          </button>
+                        </div>
+                      </div>
+                    ) : message.role === 'user' ? (
+                      <>
+                        {message.attachments && message.attachments.length > 0 && (
+                          <div className="mb-2 flex flex-wrap gap-2">
+                            {message.attachments.map((attachment, i) => (
+                              <div
+                                key={`${attachment.name}-${i}`}
+                                className="flex items-center gap-2 rounded-lg bg-black/20 px-3 py-1.5 text-xs"
+                                title={attachment.mimeType}
+                              >
+                                <File className="h-4 w-4 flex-shrink-0" />
+                                <span className="truncate max-w-[12rem]">{attachment.name}</span>
+                                <span className="text-white/70">{formatFileSize(attachment.size)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                      </>
+                    ) : (
+                      <div className="prose prose-invert max-w-none break-words">
+                        {message.steps && message.steps.length > 0 && (
+                          <WorkflowSteps steps={message.steps} isRunning={message.id === streamingMessage?.id} />
+                        )}
+                        {message.content ? (
+                          <ReactMarkdown components={markdownComponents} remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins}>
+                            {message.content}
+                          </ReactMarkdown>
+                        ) : (
+                          <p className="text-gray-400 italic">解答を作成中...</p>
+                        )}
+                        {message.stopped && (
+                          <p className="mt-2 text-xs text-gray-400 italic">（生成を停止しました）</p>
+                        )}
+                        {message.citations && message.citations.length > 0 && (
+                          <Citations citations={message.citations} />
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* 分岐の切り替えと操作ボタン */}
+                  {!isStreaming && !isEditing && (
+                    <div className="mt-1 flex items-center gap-1 text-xs text-gray-400">
+                      {siblings.length > 1 && (
+                        <div className="flex items-center">
+                          <button
+                            type="button"
+                            onClick={() => switchBranch(message, -1)}
+                            disabled={isLoading || siblingIndex === 0}
+                            className="rounded p-1 hover:bg-gray-700/50 disabled:opacity-30 transition-colors"
+                            aria-label="前のバージョン"
+                          >
+                            <ChevronLeft className="h-3.5 w-3.5" />
+                          </button>
+                          <span className="tabular-nums">{siblingIndex + 1} / {siblings.length}</span>
+                          <button
+                            type="button"
+                            onClick={() => switchBranch(message, 1)}
+                            disabled={isLoading || siblingIndex === siblings.length - 1}
+                            className="rounded p-1 hover:bg-gray-700/50 disabled:opacity-30 transition-colors"
+                            aria-label="次のバージョン"
+                          >
+                            <ChevronRight className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                      )}
+                      <div className={clsx(
+                        'flex items-center transition-opacity',
+                        // 読み上げ中・評価済みはボタンを表示したままにする
+                        speech.activeId === message.id || message.feedback
+                          ? 'opacity-100'
+                          : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'
+                      )}>
+                        {message.role === 'user' ? (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setEditingMessageId(message.id);
+                              setEditingContent(message.content);
+                            }}
+                            disabled={isLoading || !canResendAttachments(message)}
+                            className="rounded p-1 hover:bg-gray-700/50 hover:text-white disabled:opacity-30 transition-colors"
+                            aria-label="編集"
+                            title={canResendAttachments(message) ? undefined : '添付ファイルを送り直せないため編集できません'}
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </button>
+                        ) : (
+                          <>
+                            <CopyButton
+                              text={message.content}
+                              label="回答をMarkdownでコピー"
+                              className="hover:bg-gray-700/50 hover:text-white"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => speech.toggle(message.id, message.content, appIdFor(currentConversation))}
+                              className="rounded p-1 hover:bg-gray-700/50 hover:text-white transition-colors"
+                              aria-label={speech.activeId === message.id && speech.status === 'playing' ? '読み上げを一時停止' : '読み上げ'}
+                            >
+                              {speech.activeId !== message.id ? (
+                                <Volume2 className="h-3.5 w-3.5" />
+                              ) : speech.status === 'loading' ? (
+                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                              ) : speech.status === 'playing' ? (
+                                <Pause className="h-3.5 w-3.5" />
+                              ) : (
+                                <Volume2 className="h-3.5 w-3.5" />
+                              )}
+                            </button>
+                            {message.difyMessageId && (
+                              <FeedbackButtons
+                                feedback={message.feedback}
+                                onSubmit={(feedback) => submitFeedback(message, feedback)}
+                              />
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => regenerateAnswer(index)}
+                              disabled={isLoading || !canRegenerate(index)}
+                              className="rounded p-1 hover:bg-gray-700/50 hover:text-white disabled:opacity-30 transition-colors"
+                              aria-label="再生成"
+                              title={canRegenerate(index) ? undefined : '添付ファイルを送り直せないため再生成できません'}
+                            >
+                              <RefreshCw className="h-3.5 w-3.5" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-          ))}
 
-          {/* 解答作成中のメッセージ表示 */}
-          {isLoading && (
+                {message.role === 'user' && (
+                  <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] shadow-lg ring-2 ring-[#10a37f]/20">
+                    <User className="h-5 w-5 text-white" />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* 解答作成中のメッセージ表示（最初のテキストが届くまで） */}
+          {isLoading && !streamingMessage && (
             <div className="mb-6 flex gap-3 justify-start animate-fade-in">
               <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] shadow-lg ring-2 ring-[#10a37f]/20 animate-pulse">
                 <Bot className="h-5 w-5 text-white" />
               </div>
               <div className="max-w-[85%] rounded-2xl bg-[#444654] border border-gray-700/50 px-5 py-3.5 text-gray-100 shadow-lg">
                 <p className="text-gray-400 italic">解答を作成中...</p>
+                {streamStatus && (
+                  <p className="mt-1 flex items-center gap-1.5 text-xs text-yellow-300/80">
+                    <RefreshCw className="h-3 w-3 animate-spin" />
+                    {streamStatus.type === 'retrying'
+                      ? `Difyが混み合っているため再試行しています（${streamStatus.attempt}回目）`
+                      : `予備のアプリ（${streamStatus.fallback}）に切り替えました`}
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -717,7 +1730,7 @@ export default function ChatInterface() {
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="text-gray-200 font-medium truncate">{file.name}</div>
-                      <div className="text-xs text-gray-400">ドキュメント</div>
+                      <div className="text-xs text-gray-400">{formatFileSize(file.size)}</div>
                     </div>
                     <button
                       type="button"
@@ -782,8 +1795,6 @@ export default function ChatInterface() {
                     // ファイル選択時の処理
                     const fileArray = Array.from(files);
                     setSelectedFiles(prev => [...prev, ...fileArray]);
-                    console.log('Selected files:', fileArray);
-                    // TODO: ファイルをアップロードする処理を実装
                   }
                   // 同じファイルを再度選択できるようにリセット
                   e.target.value = '';
@@ -796,7 +1807,7 @@ export default function ChatInterface() {
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
                 placeholder="質問してみましょう"
-                className="w-full resize-none rounded-2xl bg-transparent px-4 pt-6 pb-4 pl-12 pr-20 text-white placeholder-gray-400 focus:outline-none focus:ring-0"
+                className="w-full resize-none rounded-2xl bg-transparent px-4 pt-6 pb-4 pl-12 pr-24 text-white placeholder-gray-400 focus:outline-none focus:ring-0"
                 rows={1}
                 style={{
                   maxHeight: '200px',
@@ -804,20 +1815,42 @@ export default function ChatInterface() {
                 }}
                 disabled={isLoading}
               />
-              {/* 送信ボタン */}
-              <div className="absolute right-4 top-1/2 -translate-y-1/2">
-                <button
-                  type="submit"
-                  disabled={!input.trim() || isLoading}
-                  className={clsx(
-                    'flex items-center justify-center w-8 h-8 rounded-full transition-all duration-200',
-                    input.trim() && !isLoading
-                      ? 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:scale-105 active:scale-95'
-                      : 'bg-gray-700/50 text-gray-500 cursor-not-allowed'
-                  )}
-                >
-                  <ArrowUp className="h-4 w-4" />
-                </button>
+              {/* 音声入力ボタンと送信ボタン（生成中は停止ボタン） */}
+              <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
+                <VoiceInputButton
+                  appId={appIdFor(currentConversation)}
+                  disabled={isLoading}
+                  onTranscript={(text) => {
+                    // 送信前に確認できるよう入力欄に追記する
+                    setInput((prev) => (prev.trim() ? `${prev.replace(/\s+$/, '')} ${text}` : text));
+                    setError(null);
+                    textareaRef.current?.focus();
+                  }}
+                  onError={setError}
+                />
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={stopGeneration}
+                    className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-200 text-gray-900 hover:bg-white hover:scale-105 active:scale-95 transition-all duration-200"
+                    aria-label="生成を停止"
+                  >
+                    <Square className="h-3.5 w-3.5 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim()}
+                    className={clsx(
+                      'flex items-center justify-center w-8 h-8 rounded-full transition-all duration-200',
+                      input.trim()
+                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:scale-105 active:scale-95'
+                        : 'bg-gray-700/50 text-gray-500 cursor-not-allowed'
+                    )}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                )}
               </div>
             </div>
           </form>
@@ -902,17 +1935,26 @@ export default function ChatInterface() {
                 </div>
               )}
 
+              {authError && (
+                <p className="text-sm text-red-400">{authError}</p>
+              )}
+
               <button
                 type="submit"
-                className="w-full rounded-lg bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] px-4 py-3 font-semibold text-white hover:from-[#0d8f6e] hover:to-[#0a7d5c] transition-all shadow-lg"
+                disabled={isAuthSubmitting}
+                className="w-full flex items-center justify-center gap-2 rounded-lg bg-gradient-to-br from-[#10a37f] to-[#0d8f6e] px-4 py-3 font-semibold text-white hover:from-[#0d8f6e] hover:to-[#0a7d5c] disabled:opacity-60 transition-all shadow-lg"
               >
+                {authMode === 'login' ? <LogIn className="h-5 w-5" /> : <UserPlus className="h-5 w-5" />}
                 {authMode === 'login' ? 'ログイン' : '新規登録'}
               </button>
             </form>
 
             <div className="mt-6 pt-6 border-t border-gray-700/50">
               <button
-                onClick={() => setAuthMode(authMode === 'login' ? 'signup' : 'login')}
+                onClick={() => {
+                  setAuthMode(authMode === 'login' ? 'signup' : 'login');
+                  setAuthError(null);
+                }}
                 className="w-full text-center text-sm text-gray-400 hover:text-[#10a37f] transition-colors"
               >
                 {authMode === 'login' ? (
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, FileText } from 'lucide-react';
+import type { Citation } from '@/lib/chat-stream';
+
+interface CitationsProps {
+  citations: Citation[];
+}
+
+// 回答の下に表示する引用元の資料（クリックで本文を展開）
+export default function Citations({ citations }: CitationsProps) {
+  const [openPositions, setOpenPositions] = useState<Set<number>>(new Set());
+
+  const toggle = (position: number) => {
+    setOpenPositions((prev) => {
+      const next = new Set(prev);
+      if (next.has(position)) {
+        next.delete(position);
+      } else {
+        next.add(position);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-600/50 pt-2 text-xs">
+      <p className="mb-1.5 font-semibold text-gray-400">引用元</p>
+      <ol className="space-y-1.5">
+        {citations.map((citation) => {
+          const isOpen = openPositions.has(citation.position);
+          return (
+            <li key={`${citation.position}-${citation.segmentId ?? citation.documentName}`} className="rounded-lg border border-gray-600/50 bg-black/10">
+              <button
+                type="button"
+                onClick={() => toggle(citation.position)}
+                className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-gray-300 hover:bg-gray-700/30 transition-colors"
+                aria-expanded={isOpen}
+              >
+                <span className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded bg-[#10a37f]/20 font-semibold text-[#10a37f]">
+                  {citation.position}
+                </span>
+                <FileText className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-gray-200" title={citation.documentName}>{citation.documentName}</span>
+                  {citation.datasetName && <span className="block truncate text-gray-500">{citation.datasetName}</span>}
+                </span>
+                {citation.score !== undefined && (
+                  <span className="flex-shrink-0 tabular-nums text-gray-400" title="類似度スコア">
+                    {citation.score.toFixed(2)}
+                  </span>
+                )}
+                {isOpen ? <ChevronDown className="h-3.5 w-3.5 flex-shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 flex-shrink-0" />}
+              </button>
+              {isOpen && citation.content && (
+                <p className="whitespace-pre-wrap break-words border-t border-gray-600/50 px-3 py-2 text-gray-300">
+                  {citation.content}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+import CopyButton from '@/components/CopyButton';
+
+interface CodeBlockProps {
+  // フェンスで指定された言語（なければ空）
+  language: string;
+  // コピー用の元のコード
+  code: string;
+  // ハイライト済みの <code> 要素
+  children: ReactNode;
+}
+
+// 回答中のコードブロック（言語名とコピーボタン付き）
+export default function CodeBlock({ language, code, children }: CodeBlockProps) {
+  return (
+    <div className="mb-2 overflow-hidden rounded-lg border border-gray-700/50 bg-[#1e1e2a]">
+      <div className="flex items-center justify-between border-b border-gray-700/50 bg-gray-800/60 px-3 py-1 text-xs text-gray-400">
+        <span className="font-mono">{language || 'text'}</span>
+        <CopyButton text={code} label="コピー" showLabel className="hover:bg-gray-700/50 hover:text-white" />
+      </div>
+      <pre className="overflow-x-auto p-3">{children}</pre>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useRef, useState, KeyboardEvent } from 'react';
+import { MessageSquare, MoreHorizontal, Loader2, Pencil, Pin, PinOff, Folder, FolderPlus, FolderMinus, Trash2, Check } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { Conversation } from '@/lib/types';
+
+interface ConversationListItemProps {
+  conversation: Conversation;
+  isActive: boolean;
+  // タイトルを生成中
+  isGeneratingTitle?: boolean;
+  // 生成したタイトルを表示し始めるときのアニメーション
+  revealTitle?: boolean;
+  // 既存のフォルダ名（移動先の候補）
+  folders: string[];
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onMoveToFolder: (folder: string | undefined) => void;
+  onDelete: (e: React.MouseEvent) => void;
+}
+
+const menuItemClass = 'w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-200 hover:bg-gray-700/50 transition-colors';
+
+export default function ConversationListItem({
+  conversation,
+  isActive,
+  isGeneratingTitle = false,
+  revealTitle = false,
+  folders,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onMoveToFolder,
+  onDelete,
+}: ConversationListItemProps) {
+  const [showMenu, setShowMenu] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState('');
+  // 新しいフォルダ名の入力中は文字列
+  const [newFolder, setNewFolder] = useState<string | null>(null);
+  const itemRef = useRef<HTMLDivElement>(null);
+  // Escで取り消したときは、入力欄が消える際の blur で保存しない
+  const renameCancelledRef = useRef(false);
+
+  // メニューの外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!showMenu) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!itemRef.current?.contains(e.target as Node)) {
+        setShowMenu(false);
+        setNewFolder(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showMenu]);
+
+  const closeMenu = () => {
+    setShowMenu(false);
+    setNewFolder(null);
+  };
+
+  const startRename = () => {
+    closeMenu();
+    setDraftTitle(conversation.title);
+    renameCancelledRef.current = false;
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    if (!renameCancelledRef.current && title && title !== conversation.title) {
+      onRename(title);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      renameCancelledRef.current = true;
+      setIsRenaming(false);
+    }
+  };
+
+  const handleNewFolderKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      const folder = newFolder?.trim();
+      if (folder) {
+        onMoveToFolder(folder);
+        closeMenu();
+      }
+    } else if (e.key === 'Escape') {
+      setNewFolder(null);
+    }
+  };
+
+  return (
+    <div
+      ref={itemRef}
+      onClick={() => !isRenaming && onSelect()}
+      className={clsx(
+        'group relative flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-all',
+        isActive
+          ? 'bg-[#2d2d3a] border border-[#10a37f]/50'
+          : 'hover:bg-[#2d2d3a]/50'
+      )}
+    >
+      {conversation.pinned ? (
+        <Pin className="h-4 w-4 flex-shrink-0 text-[#10a37f]" />
+      ) : (
+        <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-400" />
+      )}
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <input
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onKeyDown={handleRenameKeyDown}
+            onBlur={commitRename}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full rounded border border-[#10a37f]/50 bg-[#212121] px-1.5 py-0.5 text-sm text-gray-100 focus:outline-none"
+            aria-label="会話の名前"
+            autoFocus
+          />
+        ) : (
+          <p className="flex items-center gap-1.5 text-sm font-medium text-gray-200" title={conversation.title}>
+            <span key={conversation.title} className={clsx('truncate', revealTitle && 'animate-title-reveal')}>
+              {conversation.title}
+            </span>
+            {isGeneratingTitle && <Loader2 className="h-3 w-3 flex-shrink-0 animate-spin text-gray-500" aria-label="タイトルを生成中" />}
+          </p>
+        )}
+        <p className="text-xs text-gray-500 mt-0.5">
+          {new Date(conversation.updatedAt).toLocaleDateString('ja-JP', {
+            month: 'short',
+            day: 'numeric',
+          })}
+        </p>
+      </div>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setShowMenu(!showMenu);
+        }}
+        className={clsx(
+          'flex-shrink-0 p-1.5 rounded hover:bg-gray-700/50 transition-opacity',
+          showMenu ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+        )}
+        aria-label="会話のメニュー"
+        aria-haspopup="menu"
+        aria-expanded={showMenu}
+      >
+        <MoreHorizontal className="h-4 w-4 text-gray-400" />
+      </button>
+
+      {showMenu && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="absolute right-2 top-full z-20 mt-1 w-52 overflow-hidden rounded-lg border border-gray-700/50 bg-[#2d2d3a] py-1 shadow-xl"
+          role="menu"
+        >
+          <button type="button" onClick={startRename} className={menuItemClass} role="menuitem">
+            <Pencil className="h-4 w-4 text-gray-400" />
+            名前を変更
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              onTogglePin();
+              closeMenu();
+            }}
+            className={menuItemClass}
+            role="menuitem"
+          >
+            {conversation.pinned ? <PinOff className="h-4 w-4 text-gray-400" /> : <Pin className="h-4 w-4 text-gray-400" />}
+            {conversation.pinned ? 'ピン留めを外す' : 'ピン留め'}
+          </button>
+
+          <div className="my-1 border-t border-gray-700/50" />
+          <p className="px-3 py-1 text-xs text-gray-500">フォルダに移動</p>
+          {folders.map((folder) => (
+            <button
+              key={folder}
+              type="button"
+              onClick={() => {
+                onMoveToFolder(folder);
+                closeMenu();
+              }}
+              className={menuItemClass}
+              role="menuitem"
+            >
+              <Folder className="h-4 w-4 text-gray-400" />
+              <span className="flex-1 truncate">{folder}</span>
+              {conversation.folder === folder && <Check className="h-4 w-4 text-[#10a37f]" />}
+            </button>
+          ))}
+          {newFolder === null ? (
+            <button type="button" onClick={() => setNewFolder('')} className={menuItemClass} role="menuitem">
+              <FolderPlus className="h-4 w-4 text-gray-400" />
+              新しいフォルダ
+            </button>
+          ) : (
+            <div className="px-3 py-1.5">
+              <input
+                value={newFolder}
+                onChange={(e) => setNewFolder(e.target.value)}
+                onKeyDown={handleNewFolderKeyDown}
+                placeholder="フォルダ名を入力してEnter"
+                className="w-full rounded border border-[#10a37f]/50 bg-[#212121] px-2 py-1 text-sm text-gray-100 placeholder-gray-500 focus:outline-none"
+                aria-label="新しいフォルダ名"
+                autoFocus
+              />
+            </div>
+          )}
+          {conversation.folder && (
+            <button
+              type="button"
+              onClick={() => {
+                onMoveToFolder(undefined);
+                closeMenu();
+              }}
+              className={menuItemClass}
+              role="menuitem"
+            >
+              <FolderMinus className="h-4 w-4 text-gray-400" />
+              フォルダから外す
+            </button>
+          )}
+
+          <div className="my-1 border-t border-gray-700/50" />
+          <button
+            type="button"
+            onClick={(e) => {
+              closeMenu();
+              onDelete(e);
+            }}
+            className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-red-400 hover:bg-gray-700/50 transition-colors"
+            role="menuitem"
+          >
+            <Trash2 className="h-4 w-4" />
+            削除
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface CopyButtonProps {
+  text: string;
+  label: string;
+  // ボタンに文字も表示する場合
+  showLabel?: boolean;
+  className?: string;
+}
+
+// クリックでテキストをクリップボードにコピーし、少しの間チェックマークを表示する
+export default function CopyButton({ text, label, showLabel = false, className }: CopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (e) {
+      console.error('Failed to copy:', e);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className={clsx('flex items-center gap-1 rounded p-1 transition-colors', className)}
+      aria-label={copied ? 'コピーしました' : label}
+      title={copied ? 'コピーしました' : label}
+    >
+      {copied ? <Check className="h-3.5 w-3.5 text-[#10a37f]" /> : <Copy className="h-3.5 w-3.5" />}
+      {showLabel && <span>{copied ? 'コピーしました' : label}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, KeyboardEvent } from 'react';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { Feedback } from '@/lib/types';
+import type { FeedbackRating } from '@/lib/dify';
+
+interface FeedbackButtonsProps {
+  feedback?: Feedback;
+  // null を渡すと評価を取り消す。失敗した場合は reject する
+  onSubmit: (feedback: Feedback | null) => Promise<void>;
+}
+
+// 回答への いいね・よくない（任意でコメント付き）
+export default function FeedbackButtons({ feedback, onSubmit }: FeedbackButtonsProps) {
+  const [isSending, setIsSending] = useState(false);
+  // 評価した直後に表示するコメント欄
+  const [showComment, setShowComment] = useState(false);
+  const [comment, setComment] = useState('');
+
+  const send = async (next: Feedback | null) => {
+    setIsSending(true);
+    try {
+      await onSubmit(next);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // 同じ評価をもう一度押すと取り消す
+  const handleRate = async (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) {
+      if (await send(null)) {
+        setShowComment(false);
+      }
+      return;
+    }
+    if (await send({ rating })) {
+      setComment('');
+      setShowComment(true);
+    }
+  };
+
+  const submitComment = async () => {
+    const text = comment.trim();
+    if (!feedback || !text) {
+      setShowComment(false);
+      return;
+    }
+    if (await send({ rating: feedback.rating, comment: text })) {
+      setShowComment(false);
+    }
+  };
+
+  const handleCommentKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submitComment();
+    } else if (e.key === 'Escape') {
+      setShowComment(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => handleRate('like')}
+        disabled={isSending}
+        className={clsx(
+          'rounded p-1 hover:bg-gray-700/50 transition-colors disabled:opacity-50',
+          feedback?.rating === 'like' ? 'text-[#10a37f]' : 'hover:text-white'
+        )}
+        aria-label={feedback?.rating === 'like' ? '良い評価を取り消す' : '良い回答'}
+        aria-pressed={feedback?.rating === 'like'}
+      >
+        <ThumbsUp className={clsx('h-3.5 w-3.5', feedback?.rating === 'like' && 'fill-current')} />
+      </button>
+      <button
+        type="button"
+        onClick={() => handleRate('dislike')}
+        disabled={isSending}
+        className={clsx(
+          'rounded p-1 hover:bg-gray-700/50 transition-colors disabled:opacity-50',
+          feedback?.rating === 'dislike' ? 'text-red-400' : 'hover:text-white'
+        )}
+        aria-label={feedback?.rating === 'dislike' ? '悪い評価を取り消す' : '良くない回答'}
+        aria-pressed={feedback?.rating === 'dislike'}
+      >
+        <ThumbsDown className={clsx('h-3.5 w-3.5', feedback?.rating === 'dislike' && 'fill-current')} />
+      </button>
+      {showComment && feedback && (
+        <div className="ml-1 flex items-center gap-1">
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={handleCommentKeyDown}
+            placeholder={feedback.rating === 'dislike' ? 'どこが良くなかったですか？（任意）' : 'コメント（任意）'}
+            maxLength={1000}
+            className="w-56 rounded border border-gray-600 bg-[#212121] px-2 py-1 text-xs text-gray-100 placeholder-gray-500 focus:border-[#10a37f]/50 focus:outline-none"
+            aria-label="評価のコメント"
+            autoFocus
+          />
+          <button
+            type="button"
+            onClick={submitComment}
+            disabled={isSending}
+            className="rounded bg-[#10a37f] px-2 py-1 text-xs text-white hover:bg-[#0d8f6e] disabled:opacity-50 transition-colors"
+          >
+            送信
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
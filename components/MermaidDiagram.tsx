@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import CodeBlock from '@/components/CodeBlock';
+
+interface MermaidDiagramProps {
+  code: string;
+}
+
+// Mermaid の図をクライアント側で描画する
+// 構文エラー（生成途中を含む）の場合は元のコードブロックをそのまま表示する
+export default function MermaidDiagram({ code }: MermaidDiagramProps) {
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        // 大きいライブラリのため、図を表示するときだけ読み込む
+        const { default: mermaid } = await import('mermaid');
+        // strict ではクリックイベントやHTMLラベルを無効にし、SVGをサニタイズする
+        mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'dark' });
+        await mermaid.parse(code);
+        const result = await mermaid.render(id, code);
+        if (!cancelled) {
+          setSvg(result.svg);
+        }
+      } catch {
+        // 描画に失敗した場合、mermaid が本文に残す一時要素を片付ける
+        document.getElementById(`d${id}`)?.remove();
+        if (!cancelled) {
+          setSvg(null);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, id]);
+
+  if (!svg) {
+    return (
+      <CodeBlock language="mermaid" code={code}>
+        <code className="block p-3 text-sm font-mono">{code}</code>
+      </CodeBlock>
+    );
+  }
+
+  return (
+    <div
+      className="mb-2 flex justify-center overflow-x-auto rounded-lg border border-gray-700/50 bg-[#1e1e2a] p-3"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
@@ -0,0 +1,393 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Download, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { UsageStats, UsageSummary } from '@/lib/usage';
+
+interface UsageResponse {
+  from: number;
+  to: number;
+  summary: UsageSummary;
+  userEmails: Record<string, string | null>;
+}
+
+const RANGES = [7, 30, 90];
+
+const formatNumber = (value: number) => value.toLocaleString('ja-JP');
+
+const formatLatency = (ms: number | null) =>
+  ms === null ? '-' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}秒`;
+
+const formatErrorRate = (stats: UsageStats) =>
+  stats.requests === 0 ? '-' : `${((stats.errors / stats.requests) * 100).toFixed(1)}%`;
+
+// 日付（YYYY-MM-DD）を「10/19」のように短くする
+const shortDay = (day: string) => {
+  const [, month, date] = day.split('-');
+  return `${Number(month)}/${Number(date)}`;
+};
+
+interface BarChartProps {
+  title: string;
+  days: string[];
+  // 日ごとの値（棒の上に重ねて表示する値は overlay、エラー数など）
+  values: number[];
+  overlay?: number[];
+  format: (value: number) => string;
+  barClassName: string;
+  overlayClassName?: string;
+}
+
+// 日ごとの値の棒グラフ（値は各棒のツールチップで確認する）
+function BarChart({ title, days, values, overlay, format, barClassName, overlayClassName }: BarChartProps) {
+  const max = Math.max(1, ...values);
+  return (
+    <div className="rounded-xl border border-gray-700/50 bg-[#2d2d3a] p-4">
+      <h3 className="mb-3 text-sm font-medium text-gray-300">{title}</h3>
+      <div className="flex h-40 items-end gap-px">
+        {values.map((value, i) => (
+          <div
+            key={days[i]}
+            className="flex h-full flex-1 items-end"
+            title={`${days[i]}: ${format(value)}${overlay ? `（エラー ${format(overlay[i])}）` : ''}`}
+          >
+            <div className={clsx('relative w-full rounded-t-sm', barClassName)} style={{ height: `${(value / max) * 100}%` }}>
+              {overlay && overlay[i] > 0 && (
+                <div
+                  className={clsx('absolute bottom-0 w-full', overlayClassName)}
+                  style={{ height: `${(overlay[i] / value) * 100}%` }}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span>{shortDay(days[0])}</span>
+        <span>{shortDay(days[days.length - 1])}</span>
+      </div>
+    </div>
+  );
+}
+
+// ユーザー別のグラフに表示する人数（値の大きい順）
+const USER_CHART_LIMIT = 10;
+
+interface UserBarChartProps {
+  title: string;
+  rows: { userId: string; label: string; value: number; overlay?: number }[];
+  format: (value: number) => string;
+  barClassName: string;
+  overlayClassName?: string;
+}
+
+// ユーザーごとの値の横棒グラフ（上位のみ。すべてのユーザーは下の表で確認する）
+function UserBarChart({ title, rows, format, barClassName, overlayClassName }: UserBarChartProps) {
+  const top = [...rows].sort((a, b) => b.value - a.value).slice(0, USER_CHART_LIMIT);
+  const max = Math.max(1, ...top.map((row) => row.value));
+  return (
+    <div className="rounded-xl border border-gray-700/50 bg-[#2d2d3a] p-4">
+      <h3 className="mb-3 text-sm font-medium text-gray-300">
+        {title}
+        {rows.length > USER_CHART_LIMIT && <span className="ml-2 text-xs text-gray-500">上位{USER_CHART_LIMIT}人</span>}
+      </h3>
+      <div className="space-y-2">
+        {top.map((row) => (
+          <div
+            key={row.userId}
+            className="flex items-center gap-3 text-xs"
+            title={`${row.label}: ${format(row.value)}${row.overlay !== undefined ? `（エラー ${format(row.overlay)}）` : ''}`}
+          >
+            <span className="w-40 flex-shrink-0 truncate text-gray-400">{row.label}</span>
+            <div className="h-3 flex-1">
+              <div className={clsx('relative h-full rounded-r-sm', barClassName)} style={{ width: `${(row.value / max) * 100}%` }}>
+                {row.overlay !== undefined && row.overlay > 0 && (
+                  <div
+                    className={clsx('absolute right-0 h-full', overlayClassName)}
+                    style={{ width: `${(row.overlay / row.value) * 100}%` }}
+                  />
+                )}
+              </div>
+            </div>
+            <span className="w-16 flex-shrink-0 text-right text-gray-300">{format(row.value)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// 所要時間のパーセンタイルの折れ線（p50・p90・p99）
+function LatencyChart({ byDay }: { byDay: UsageSummary['byDay'] }) {
+  const series = [
+    { key: 'latencyP50' as const, label: 'p50', className: 'stroke-[#10a37f]' },
+    { key: 'latencyP90' as const, label: 'p90', className: 'stroke-yellow-400' },
+    { key: 'latencyP99' as const, label: 'p99', className: 'stroke-red-400' },
+  ];
+  const max = Math.max(1, ...byDay.flatMap((d) => series.map((s) => d[s.key] ?? 0)));
+  const x = (i: number) => (byDay.length === 1 ? 50 : (i / (byDay.length - 1)) * 100);
+  const y = (value: number) => 100 - (value / max) * 100;
+
+  return (
+    <div className="rounded-xl border border-gray-700/50 bg-[#2d2d3a] p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-300">応答時間（最大 {formatLatency(max)}）</h3>
+        <div className="flex gap-3 text-xs text-gray-400">
+          {series.map((s) => (
+            <span key={s.key} className="flex items-center gap-1">
+              <svg className="h-2 w-3" viewBox="0 0 12 8"><line x1="0" y1="4" x2="12" y2="4" className={s.className} strokeWidth="2" /></svg>
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <svg className="h-40 w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+        {series.map((s) => {
+          // 記録のない日は線を途切れさせる
+          const segments: string[][] = [[]];
+          byDay.forEach((d, i) => {
+            const value = d[s.key];
+            if (value === null) {
+              segments.push([]);
+            } else {
+              segments[segments.length - 1].push(`${x(i)},${y(value)}`);
+            }
+          });
+          return segments
+            .filter((points) => points.length > 0)
+            .map((points, i) => (
+              <polyline
+                key={`${s.key}-${i}`}
+                points={points.length === 1 ? `${points[0]} ${points[0]}` : points.join(' ')}
+                fill="none"
+                className={s.className}
+                strokeWidth="2"
+                strokeLinecap="round"
+                vectorEffect="non-scaling-stroke"
+              />
+            ));
+        })}
+      </svg>
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span>{shortDay(byDay[0].day)}</span>
+        <span>{shortDay(byDay[byDay.length - 1].day)}</span>
+      </div>
+    </div>
+  );
+}
+
+function StatsCells({ stats }: { stats: UsageStats }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{formatNumber(stats.requests)}</td>
+      <td className="px-3 py-2 text-right">{formatNumber(stats.tokens)}</td>
+      <td className="px-3 py-2 text-right">{formatLatency(stats.latencyP50)}</td>
+      <td className="px-3 py-2 text-right">{formatLatency(stats.latencyP90)}</td>
+      <td className="px-3 py-2 text-right">{formatLatency(stats.latencyP99)}</td>
+      <td className={clsx('px-3 py-2 text-right', stats.errors > 0 && 'text-red-400')}>{formatErrorRate(stats)}</td>
+    </>
+  );
+}
+
+const STATS_HEADERS = ['リクエスト', 'トークン', 'p50', 'p90', 'p99', 'エラー率'];
+
+// 管理者向けの利用状況（/admin/usage）
+export default function UsageDashboard() {
+  const [days, setDays] = useState(30);
+  const [data, setData] = useState<UsageResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/admin/usage?days=${days}`)
+      .then(async (res) => {
+        if (res.status === 401) throw new Error('ログインが必要です');
+        if (res.status === 403) throw new Error('利用状況を見る権限がありません');
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body.error || `HTTP ${res.status}`);
+        }
+        return res.json() as Promise<UsageResponse>;
+      })
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const changeRange = (range: number) => {
+    if (range === days) return;
+    setIsLoading(true);
+    setError(null);
+    setDays(range);
+  };
+
+  const summary = data?.summary;
+  const dayLabels = summary?.byDay.map((d) => d.day) ?? [];
+  const userLabel = (userId: string) => data?.userEmails[userId] ?? `（削除されたユーザー: ${userId}）`;
+
+  return (
+    <div className="min-h-screen bg-[#212121] text-gray-100">
+      <header className="border-b border-gray-700/50 bg-[#2d2d3a]/80 px-6 py-4">
+        <div className="mx-auto flex max-w-6xl items-center gap-4">
+          <Link href="/" className="rounded p-1.5 hover:bg-gray-700/50 transition-colors" aria-label="チャットに戻る">
+            <ArrowLeft className="h-5 w-5 text-gray-400" />
+          </Link>
+          <h1 className="flex-1 text-lg font-semibold">利用状況</h1>
+          <div className="flex rounded-lg border border-gray-700/50 p-0.5">
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                type="button"
+                onClick={() => changeRange(range)}
+                className={clsx(
+                  'rounded-md px-3 py-1 text-sm transition-colors',
+                  days === range ? 'bg-[#10a37f] text-white' : 'text-gray-400 hover:text-white'
+                )}
+                aria-pressed={days === range}
+              >
+                {range}日間
+              </button>
+            ))}
+          </div>
+          <a
+            href={`/api/admin/usage?days=${days}&format=csv`}
+            className="flex items-center gap-1.5 rounded-lg bg-gray-700/50 px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-600/50 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </a>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-6xl space-y-6 px-6 py-6">
+        {error ? (
+          <p className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300">{error}</p>
+        ) : !summary ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className={clsx('space-y-6 transition-opacity', isLoading && 'opacity-50')}>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {[
+                { label: 'リクエスト', value: formatNumber(summary.total.requests) },
+                { label: 'トークン', value: formatNumber(summary.total.tokens) },
+                { label: '応答時間（p50 / p90）', value: `${formatLatency(summary.total.latencyP50)} / ${formatLatency(summary.total.latencyP90)}` },
+                { label: 'エラー率', value: formatErrorRate(summary.total) },
+              ].map((card) => (
+                <div key={card.label} className="rounded-xl border border-gray-700/50 bg-[#2d2d3a] p-4">
+                  <p className="text-xs text-gray-400">{card.label}</p>
+                  <p className="mt-1 text-xl font-semibold">{card.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <BarChart
+                title="リクエスト数（赤はエラー）"
+                days={dayLabels}
+                values={summary.byDay.map((d) => d.requests)}
+                overlay={summary.byDay.map((d) => d.errors)}
+                format={formatNumber}
+                barClassName="bg-[#10a37f]/70"
+                overlayClassName="bg-red-400/80"
+              />
+              <BarChart
+                title="トークン数"
+                days={dayLabels}
+                values={summary.byDay.map((d) => d.tokens)}
+                format={formatNumber}
+                barClassName="bg-sky-400/70"
+              />
+            </div>
+            <LatencyChart byDay={summary.byDay} />
+
+            {summary.byUser.length > 0 && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <UserBarChart
+                  title="ユーザー別のリクエスト数（赤はエラー）"
+                  rows={summary.byUser.map((u) => ({ userId: u.userId, label: userLabel(u.userId), value: u.requests, overlay: u.errors }))}
+                  format={formatNumber}
+                  barClassName="bg-[#10a37f]/70"
+                  overlayClassName="bg-red-400/80"
+                />
+                <UserBarChart
+                  title="ユーザー別のトークン数"
+                  rows={summary.byUser.map((u) => ({ userId: u.userId, label: userLabel(u.userId), value: u.tokens }))}
+                  format={formatNumber}
+                  barClassName="bg-sky-400/70"
+                />
+              </div>
+            )}
+
+            <section>
+              <h2 className="mb-2 text-sm font-medium text-gray-300">ユーザー別</h2>
+              <div className="overflow-x-auto rounded-xl border border-gray-700/50">
+                <table className="w-full text-sm">
+                  <thead className="bg-[#2d2d3a] text-xs text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">ユーザー</th>
+                      {STATS_HEADERS.map((header) => (
+                        <th key={header} className="px-3 py-2 text-right font-medium">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700/50">
+                    {summary.byUser.length === 0 ? (
+                      <tr>
+                        <td colSpan={STATS_HEADERS.length + 1} className="px-3 py-6 text-center text-gray-500">この期間の記録はありません</td>
+                      </tr>
+                    ) : (
+                      summary.byUser.map((row) => (
+                        <tr key={row.userId}>
+                          <td className="px-3 py-2 text-gray-200">{userLabel(row.userId)}</td>
+                          <StatsCells stats={row} />
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section>
+              <h2 className="mb-2 text-sm font-medium text-gray-300">日別</h2>
+              <div className="overflow-x-auto rounded-xl border border-gray-700/50">
+                <table className="w-full text-sm">
+                  <thead className="bg-[#2d2d3a] text-xs text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">日付</th>
+                      {STATS_HEADERS.map((header) => (
+                        <th key={header} className="px-3 py-2 text-right font-medium">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700/50">
+                    {[...summary.byDay].reverse().map((row) => (
+                      <tr key={row.day}>
+                        <td className="px-3 py-2 text-gray-200">{row.day}</td>
+                        <StatsCells stats={row} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
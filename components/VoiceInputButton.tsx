@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, Square, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface VoiceInputButtonProps {
+  // 文字起こし結果を受け取る
+  onTranscript: (text: string) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+  // 文字起こしに使うDifyアプリ（未指定なら既定のアプリ）
+  appId?: string;
+}
+
+type RecordingState = 'idle' | 'recording' | 'transcribing' | 'denied';
+
+// 録音形式に応じたファイル拡張子
+const extensionFor = (mimeType: string) => {
+  if (mimeType.includes('mp4')) return 'm4a';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('wav')) return 'wav';
+  return 'webm';
+};
+
+export default function VoiceInputButton({ onTranscript, onError, disabled = false, appId }: VoiceInputButtonProps) {
+  const [state, setState] = useState<RecordingState>('idle');
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  // アンマウント時に録音とマイクを止める
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      recorder?.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const transcribe = async (blob: Blob) => {
+    setState('transcribing');
+    try {
+      const formData = new FormData();
+      formData.append('file', blob, `recording.${extensionFor(blob.type)}`);
+      if (appId) {
+        formData.append('appId', appId);
+      }
+      const response = await fetch('/api/audio-to-text', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      if (data.text) {
+        onTranscript(data.text);
+      } else {
+        onError('音声を認識できませんでした');
+      }
+    } catch (err) {
+      onError(`音声の文字起こしに失敗しました: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setState('idle');
+    }
+  };
+
+  const startRecording = async () => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      onError('このブラウザは音声入力に対応していません');
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      if (err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'SecurityError')) {
+        setState('denied');
+        onError('マイクの使用が許可されていません。ブラウザの設定からマイクへのアクセスを許可してください');
+      } else {
+        onError(`マイクを開始できませんでした: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    chunksRef.current = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunksRef.current.push(e.data);
+      }
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+      if (blob.size > 0) {
+        transcribe(blob);
+      } else {
+        setState('idle');
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setState('recording');
+  };
+
+  const handleClick = () => {
+    if (state === 'recording') {
+      recorderRef.current?.stop();
+    } else if (state === 'idle' || state === 'denied') {
+      startRecording();
+    }
+  };
+
+  const label = {
+    idle: '音声入力',
+    recording: '録音を停止',
+    transcribing: '文字起こし中...',
+    denied: 'マイクが許可されていません',
+  }[state];
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={disabled || state === 'transcribing'}
+      className={clsx(
+        'flex items-center justify-center w-8 h-8 rounded-full transition-all duration-200',
+        state === 'recording'
+          ? 'bg-red-500 text-white animate-pulse hover:bg-red-600'
+          : state === 'denied'
+            ? 'text-red-400 hover:bg-gray-700/50'
+            : 'text-gray-300 hover:bg-gray-700/50 hover:text-white',
+        (disabled || state === 'transcribing') && 'cursor-not-allowed opacity-60'
+      )}
+      aria-label={label}
+      title={label}
+    >
+      {state === 'recording' ? (
+        <Square className="h-3.5 w-3.5 fill-current" />
+      ) : state === 'transcribing' ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : state === 'denied' ? (
+        <MicOff className="h-4 w-4" />
+      ) : (
+        <Mic className="h-4 w-4" />
+      )}
+    </button>
+  );
+}
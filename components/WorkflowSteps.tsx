@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, CheckCircle2, XCircle, CircleSlash } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { WorkflowStep } from '@/lib/chat-stream';
+
+interface WorkflowStepsProps {
+  steps: WorkflowStep[];
+  // 生成中は展開した状態で表示する
+  isRunning?: boolean;
+}
+
+const STATUS_ICONS: Record<WorkflowStep['status'], React.ReactNode> = {
+  running: <Loader2 className="h-3.5 w-3.5 animate-spin text-[#10a37f]" />,
+  succeeded: <CheckCircle2 className="h-3.5 w-3.5 text-[#10a37f]" />,
+  failed: <XCircle className="h-3.5 w-3.5 text-red-400" />,
+  stopped: <CircleSlash className="h-3.5 w-3.5 text-gray-400" />,
+};
+
+export default function WorkflowSteps({ steps, isRunning = false }: WorkflowStepsProps) {
+  const [open, setOpen] = useState<boolean | null>(null);
+  // ユーザーが開閉するまでは生成中かどうかで開閉を決める
+  const isOpen = open ?? isRunning;
+
+  const totalElapsed = steps.reduce((sum, step) => sum + (step.elapsedTime ?? 0), 0);
+  const runningStep = steps.find((step) => step.status === 'running');
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-600/50 bg-black/10 text-xs text-gray-300">
+      <button
+        type="button"
+        onClick={() => setOpen(!isOpen)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left hover:bg-gray-700/30 transition-colors rounded-lg"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        <span className="flex-1 truncate">
+          {runningStep ? `${runningStep.title} を実行中...` : `ワークフロー ${steps.length} ステップ`}
+        </span>
+        {totalElapsed > 0 && <span className="text-gray-400">{totalElapsed.toFixed(2)}s</span>}
+      </button>
+
+      {isOpen && (
+        <ol className="space-y-1 px-3 pb-2">
+          {steps.map((step) => (
+            <li key={step.id} className="flex items-center gap-2">
+              {STATUS_ICONS[step.status]}
+              <span className={clsx('flex-1 truncate', step.status === 'failed' && 'text-red-300')} title={step.error}>
+                {step.title}
+              </span>
+              {step.totalTokens !== undefined && (
+                <span className="text-gray-500">{step.totalTokens.toLocaleString()} tokens</span>
+              )}
+              {step.elapsedTime !== undefined && (
+                <span className="w-14 text-right text-gray-400">{step.elapsedTime.toFixed(2)}s</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
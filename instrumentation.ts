@@ -0,0 +1,14 @@
+// サーバー起動時に一度だけ実行される
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Dify の設定を確認し、問題があれば起動ログに分かりやすく出す
+  const { validateDifyConfig } = await import('@/lib/config');
+  const { logger } = await import('@/lib/logger');
+  const problems = validateDifyConfig();
+  if (problems.length > 0) {
+    logger.error(`Dify configuration has ${problems.length} problem(s); /api/chat will return 500 until these are fixed`, {
+      problems,
+    });
+  }
+}
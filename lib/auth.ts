@@ -0,0 +1,160 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextRequest, NextResponse } from 'next/server';
+import { readCollection, updateCollection } from '@/lib/store';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'session';
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30日
+const KEY_LENGTH = 64;
+
+interface StoredUser {
+  id: string;
+  email: string;
+  // "salt:hash"（いずれも16進数）
+  passwordHash: string;
+  createdAt: number;
+}
+
+interface StoredSession {
+  // セッショントークンのSHA-256（トークン自体は保存しない）
+  tokenHash: string;
+  userId: string;
+  expiresAt: number;
+}
+
+// クライアントに返すユーザー情報
+export interface AuthUser {
+  id: string;
+  email: string;
+  // ADMIN_EMAILS に含まれるユーザー（/api/auth/me でのみ付ける）
+  isAdmin?: boolean;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const toAuthUser = ({ id, email }: StoredUser): AuthUser => ({ id, email });
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// メールアドレスとパスワードの形式を確認
+export function validateCredentials(email: unknown, password: unknown): { email: string; password: string } {
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    throw new AuthError('A valid email address is required', 400);
+  }
+  if (typeof password !== 'string' || password.length < 6) {
+    throw new AuthError('Password must be at least 6 characters', 400);
+  }
+  return { email: email.trim().toLowerCase(), password };
+}
+
+export async function createUser(email: string, password: string): Promise<AuthUser> {
+  const passwordHash = await hashPassword(password);
+  return updateCollection<StoredUser, AuthUser>('users', (users) => {
+    if (users.some((u) => u.email === email)) {
+      throw new AuthError('This email address is already registered', 409);
+    }
+    const user: StoredUser = { id: randomUUID(), email, passwordHash, createdAt: Date.now() };
+    return { items: [...users, user], result: toAuthUser(user) };
+  });
+}
+
+export async function authenticate(email: string, password: string): Promise<AuthUser> {
+  const users = await readCollection<StoredUser>('users');
+  const user = users.find((u) => u.email === email);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new AuthError('Invalid email or password', 401);
+  }
+  return toAuthUser(user);
+}
+
+// 管理者は ADMIN_EMAILS（カンマ区切りのメールアドレス）で指定する
+export function isAdmin(user: AuthUser): boolean {
+  const emails = (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return emails.includes(user.email);
+}
+
+export async function listUsers(): Promise<AuthUser[]> {
+  const users = await readCollection<StoredUser>('users');
+  return users.map(toAuthUser);
+}
+
+export async function createSession(userId: string): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  const now = Date.now();
+  await updateCollection<StoredSession>('sessions', (sessions) => ({
+    // 期限切れのセッションはこのタイミングで掃除する
+    items: [
+      ...sessions.filter((s) => s.expiresAt > now),
+      { tokenHash: hashToken(token), userId, expiresAt: now + SESSION_MAX_AGE * 1000 },
+    ],
+    result: undefined,
+  }));
+  return token;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  const tokenHash = hashToken(token);
+  await updateCollection<StoredSession>('sessions', (sessions) => ({
+    items: sessions.filter((s) => s.tokenHash !== tokenHash),
+    result: undefined,
+  }));
+}
+
+// リクエストのセッションCookieからログイン中のユーザーを取得
+export async function getSessionUser(request: NextRequest): Promise<AuthUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const tokenHash = hashToken(token);
+  const sessions = await readCollection<StoredSession>('sessions');
+  const session = sessions.find((s) => s.tokenHash === tokenHash && s.expiresAt > Date.now());
+  if (!session) return null;
+
+  const users = await readCollection<StoredUser>('users');
+  const user = users.find((u) => u.id === session.userId);
+  return user ? toAuthUser(user) : null;
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,92 @@
+import type { DifyNodeEventData, DifyRetrieverResource } from '@/lib/dify';
+
+// /api/chat がクライアントに送るSSEイベントの型
+
+// ワークフローの各ノードの実行状況
+export interface WorkflowStep {
+  // ノード実行ID（同じノードが複数回実行されても区別できる）
+  id: string;
+  nodeId: string;
+  nodeType: string;
+  title: string;
+  status: 'running' | 'succeeded' | 'failed' | 'stopped';
+  // 開始時刻（ミリ秒）
+  startedAt: number;
+  // 実行時間（秒）
+  elapsedTime?: number;
+  totalTokens?: number;
+  error?: string;
+}
+
+// ナレッジベースから引用した資料
+export interface Citation {
+  // 回答中の引用番号（1から）
+  position: number;
+  documentName: string;
+  datasetName?: string;
+  // 検索の類似度スコア（0〜1）
+  score?: number;
+  // 引用したチャンクの本文
+  content: string;
+  documentId?: string;
+  segmentId?: string;
+}
+
+// Difyへの接続の再試行・予備のアプリへの切り替え（最初のイベントが届く前のみ）
+export type StreamStatus =
+  // attempt 回目（2から）の試行を delayMs ミリ秒後に行う
+  | { type: 'retrying'; attempt: number; delayMs: number }
+  // fallback 番目（1から）の予備のアプリに切り替えた
+  | { type: 'failover'; fallback: number };
+
+export interface ChatStreamPayload {
+  content?: string;
+  done?: boolean;
+  error?: string;
+  step?: WorkflowStep;
+  // チャットフローの会話ID（Dify側）
+  conversationId?: string;
+  // 回答の根拠となった資料（終了イベントと一緒に送る）
+  citations?: Citation[];
+  // Dify側のメッセージID（評価の送信に使う。ワークフローアプリにはない）
+  messageId?: string;
+  status?: StreamStatus;
+  // 添付ファイルをアップロードしたDify側のid（添付した順。再生成で送り直すのに使う）
+  uploadFileIds?: string[];
+}
+
+// Dify の node_started / node_finished イベントをステップ情報に変換
+export function toWorkflowStep(event: string, data: DifyNodeEventData | undefined): WorkflowStep | null {
+  if (!data?.id || (event !== 'node_started' && event !== 'node_finished')) {
+    return null;
+  }
+  const totalTokens = data.execution_metadata?.total_tokens;
+  return {
+    id: data.id,
+    nodeId: data.node_id,
+    nodeType: data.node_type,
+    title: data.title || data.node_type,
+    status: event === 'node_started' ? 'running' : (data.status || 'succeeded'),
+    startedAt: data.created_at ? data.created_at * 1000 : Date.now(),
+    ...(typeof data.elapsed_time === 'number' && { elapsedTime: data.elapsed_time }),
+    ...(typeof totalTokens === 'number' && totalTokens > 0 && { totalTokens }),
+    ...(data.error && { error: String(data.error) }),
+  };
+}
+
+// Dify の retriever_resources を引用情報に変換（番号順）
+export function toCitations(resources: unknown): Citation[] {
+  if (!Array.isArray(resources)) return [];
+  return (resources as DifyRetrieverResource[])
+    .filter((r) => r && typeof r === 'object' && (r.document_name || r.content))
+    .map((r, index) => ({
+      position: typeof r.position === 'number' ? r.position : index + 1,
+      documentName: r.document_name || '（名称なし）',
+      ...(r.dataset_name && { datasetName: r.dataset_name }),
+      ...(typeof r.score === 'number' && { score: r.score }),
+      content: r.content || '',
+      ...(r.document_id && { documentId: r.document_id }),
+      ...(r.segment_id && { segmentId: r.segment_id }),
+    }))
+    .sort((a, b) => a.position - b.position);
+}
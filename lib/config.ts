@@ -0,0 +1,376 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { NextResponse } from 'next/server';
+
+// Dify アプリの接続設定
+// 環境変数と任意のJSON設定ファイル（DIFY_CONFIG_FILE、既定は dify.config.json）から読み込む
+// 優先順位: 環境変数 > 設定ファイル > 既定値
+// 最上位の設定が既定のアプリになり、apps（または DIFY_APPS）で名前付きのアプリを追加できる
+
+export type DifyAppType = 'workflow' | 'chatflow' | 'completion';
+
+export const DIFY_APP_TYPES: DifyAppType[] = ['workflow', 'chatflow', 'completion'];
+
+export interface DifyAppConfig {
+  apiKey: string;
+  // 例: https://api.dify.ai/v1（末尾のスラッシュなし）
+  baseUrl: string;
+  appType: DifyAppType;
+  // ワークフロー入力の変数名
+  inputNames: {
+    query: string;
+    history: string;
+    files: string;
+  };
+  // 会話履歴の最大文字数（超えた分は古いターンから切り捨て）
+  historyMaxChars: number;
+  // 毎回固定で渡す入力
+  extraInputs: Record<string, unknown>;
+  // workflow_finished の outputs から回答として使う変数名（未指定なら最初の文字列）
+  outputVariable?: string;
+  // 会話タイトルを生成するワークフローのAPIキー（入力は question と answer）
+  titleApiKey?: string;
+  // タイトル生成ワークフローの outputs からタイトルとして使う変数名（未指定なら最初の文字列）
+  titleOutputVariable?: string;
+  // 一時的なエラー（429・502・503・最初のイベントまでの切断）の再試行回数（最初の1回を除く）
+  maxRetries: number;
+  // 再試行の待ち時間の基準（ミリ秒、試行ごとに2倍にしてジッターを加える）
+  retryBaseDelayMs: number;
+  // 待ち時間の上限（ミリ秒）。Retry-After がこれより長い場合は待たずに次のアプリへ切り替える
+  retryMaxDelayMs: number;
+  // 再試行しても応答がない場合に順に切り替える予備のアプリ（APIキーのみの指定なら他の設定は引き継ぐ）
+  fallbacks: DifyAppConfig[];
+}
+
+// 一覧に登録したアプリ
+export interface DifyApp extends DifyAppConfig {
+  id: string;
+  name: string;
+  description?: string;
+  // 絵文字または画像のURL
+  icon?: string;
+}
+
+// クライアントに返すアプリの情報（APIキーや接続先は含めない）
+export interface DifyAppInfo {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  appType: DifyAppType;
+}
+
+// 最上位の設定（DIFY_API_KEY など）から作るアプリのID
+export const DEFAULT_APP_ID = 'default';
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid Dify configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const DEFAULT_BASE_URL = 'https://api.dify.ai/v1';
+const DEFAULT_CONFIG_FILE = 'dify.config.json';
+
+export class UnknownAppError extends Error {
+  constructor(public appId: string) {
+    super(`Unknown Dify app: ${appId}`);
+    this.name = 'UnknownAppError';
+  }
+}
+
+type RawConfig = Partial<Omit<DifyAppConfig, 'inputNames' | 'fallbacks'>> & {
+  inputNames?: Partial<DifyAppConfig['inputNames']>;
+  fallbacks?: RawConfig[];
+};
+
+type RawApp = RawConfig & Partial<Pick<DifyApp, 'id' | 'name' | 'description' | 'icon'>>;
+
+type RawConfigFile = RawApp & {
+  apps?: RawApp[];
+};
+
+function readConfigFile(problems: string[]): RawConfigFile {
+  const filePath = path.resolve(process.cwd(), process.env.DIFY_CONFIG_FILE || DEFAULT_CONFIG_FILE);
+  if (!existsSync(filePath)) {
+    if (process.env.DIFY_CONFIG_FILE) {
+      problems.push(`DIFY_CONFIG_FILE: ${filePath} was not found`);
+    }
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      problems.push(`${filePath}: must contain a JSON object`);
+      return {};
+    }
+    return parsed;
+  } catch (e) {
+    problems.push(`${filePath}: ${e instanceof Error ? e.message : String(e)}`);
+    return {};
+  }
+}
+
+function parseJsonObject(name: string, value: string | undefined, problems: string[]): Record<string, unknown> | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // 下でまとめて報告する
+  }
+  problems.push(`${name}: must be a JSON object (e.g. {"tone":"polite"})`);
+  return undefined;
+}
+
+function parseJsonArray(name: string, value: string | undefined, problems: string[]): unknown[] | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // 下でまとめて報告する
+  }
+  problems.push(`${name}: must be a JSON array (e.g. [{"id":"hr","name":"HR FAQ","apiKey":"app-..."}])`);
+  return undefined;
+}
+
+// 生の設定値を検証して DifyAppConfig にする
+export function resolveAppConfig(raw: RawConfig, source: string, problems: string[]): DifyAppConfig {
+  const apiKey = raw.apiKey || '';
+  if (!apiKey) {
+    problems.push(`${source}: DIFY_API_KEY is not configured`);
+  }
+
+  const baseUrl = (raw.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  try {
+    new URL(baseUrl);
+  } catch {
+    problems.push(`${source}: baseUrl "${baseUrl}" is not a valid URL`);
+  }
+
+  const appType = raw.appType || 'workflow';
+  if (!DIFY_APP_TYPES.includes(appType)) {
+    problems.push(`${source}: appType must be one of ${DIFY_APP_TYPES.join(' / ')} (got "${appType}")`);
+  }
+
+  const historyMaxChars = raw.historyMaxChars ?? 4000;
+  if (!Number.isInteger(historyMaxChars) || historyMaxChars < 0) {
+    problems.push(`${source}: historyMaxChars must be a non-negative integer`);
+  }
+
+  const extraInputs = raw.extraInputs ?? {};
+  if (typeof extraInputs !== 'object' || Array.isArray(extraInputs)) {
+    problems.push(`${source}: extraInputs must be an object`);
+  }
+
+  const maxRetries = raw.maxRetries ?? 2;
+  const retryBaseDelayMs = raw.retryBaseDelayMs ?? 500;
+  const retryMaxDelayMs = raw.retryMaxDelayMs ?? 8000;
+  for (const [name, value] of Object.entries({ maxRetries, retryBaseDelayMs, retryMaxDelayMs })) {
+    if (!Number.isInteger(value) || value < 0) {
+      problems.push(`${source}: ${name} must be a non-negative integer`);
+    }
+  }
+
+  // 予備のアプリは自分の設定を引き継ぎ、指定した項目だけ上書きする
+  const rawFallbacks = raw.fallbacks ?? [];
+  if (!Array.isArray(rawFallbacks)) {
+    problems.push(`${source}: fallbacks must be an array`);
+  }
+  const fallbacks: DifyAppConfig[] = [];
+  (Array.isArray(rawFallbacks) ? rawFallbacks : []).forEach((fallback, i) => {
+    const fallbackSource = `${source} (fallback ${i + 1})`;
+    if (!fallback || typeof fallback !== 'object' || Array.isArray(fallback)) {
+      problems.push(`${fallbackSource}: must be an object with apiKey`);
+      return;
+    }
+    fallbacks.push(resolveAppConfig(
+      {
+        ...raw,
+        ...fallback,
+        // APIキーは引き継がない（同じキーに切り替えても意味がないため）
+        apiKey: fallback.apiKey,
+        inputNames: { ...raw.inputNames, ...fallback.inputNames },
+        fallbacks: [],
+      },
+      fallbackSource,
+      problems
+    ));
+  });
+
+  return {
+    apiKey,
+    baseUrl,
+    appType,
+    inputNames: {
+      query: raw.inputNames?.query || 'query',
+      history: raw.inputNames?.history || 'history',
+      files: raw.inputNames?.files || 'files',
+    },
+    historyMaxChars,
+    extraInputs,
+    ...(raw.outputVariable && { outputVariable: raw.outputVariable }),
+    ...(raw.titleApiKey && { titleApiKey: raw.titleApiKey }),
+    ...(raw.titleOutputVariable && { titleOutputVariable: raw.titleOutputVariable }),
+    maxRetries,
+    retryBaseDelayMs,
+    retryMaxDelayMs,
+    fallbacks,
+  };
+}
+
+// 環境変数の数値（未指定なら undefined、数値でなければ NaN として検証で報告する）
+const envNumber = (value: string | undefined) => (value !== undefined ? Number(value) : undefined);
+
+const APP_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const toRegisteredApp = (raw: RawApp, id: string, config: DifyAppConfig): DifyApp => ({
+  ...config,
+  id,
+  name: raw.name || id,
+  ...(raw.description && { description: raw.description }),
+  ...(raw.icon && { icon: raw.icon }),
+});
+
+export const toAppInfo = (app: DifyApp): DifyAppInfo => ({
+  id: app.id,
+  name: app.name,
+  ...(app.description && { description: app.description }),
+  ...(app.icon && { icon: app.icon }),
+  appType: app.appType,
+});
+
+function loadDifyConfig(): { apps: DifyApp[]; problems: string[] } {
+  const problems: string[] = [];
+  const file = readConfigFile(problems);
+  const env = process.env;
+
+  const historyMaxChars = env.DIFY_HISTORY_MAX_CHARS !== undefined
+    ? Number(env.DIFY_HISTORY_MAX_CHARS)
+    : file.historyMaxChars;
+
+  // DIFY_FALLBACK_API_KEYS（カンマ区切り）は設定ファイルの fallbacks の後ろに加える
+  const fallbackKeys = (env.DIFY_FALLBACK_API_KEYS ?? '').split(',').map((key) => key.trim()).filter(Boolean);
+  const fallbacks = file.fallbacks === undefined || Array.isArray(file.fallbacks)
+    ? [...(file.fallbacks ?? []), ...fallbackKeys.map((apiKey) => ({ apiKey }))]
+    // 配列でなければ resolveAppConfig で報告する
+    : file.fallbacks;
+
+  const { apps: fileApps, ...fileConfig } = file;
+  const base: RawApp = {
+    ...fileConfig,
+    name: env.DIFY_APP_NAME || file.name,
+    description: env.DIFY_APP_DESCRIPTION || file.description,
+    icon: env.DIFY_APP_ICON || file.icon,
+    apiKey: env.DIFY_API_KEY || file.apiKey,
+    baseUrl: env.DIFY_API_BASE_URL || file.baseUrl,
+    appType: (env.DIFY_APP_TYPE as DifyAppType | undefined) || file.appType,
+    inputNames: {
+      query: env.DIFY_QUERY_INPUT || file.inputNames?.query,
+      history: env.DIFY_HISTORY_INPUT || file.inputNames?.history,
+      files: env.DIFY_FILES_INPUT || file.inputNames?.files,
+    },
+    historyMaxChars,
+    extraInputs: parseJsonObject('DIFY_EXTRA_INPUTS', env.DIFY_EXTRA_INPUTS, problems) ?? file.extraInputs,
+    outputVariable: env.DIFY_OUTPUT_VARIABLE || file.outputVariable,
+    titleApiKey: env.DIFY_TITLE_API_KEY || file.titleApiKey,
+    titleOutputVariable: env.DIFY_TITLE_OUTPUT_VARIABLE || file.titleOutputVariable,
+    maxRetries: envNumber(env.DIFY_MAX_RETRIES) ?? file.maxRetries,
+    retryBaseDelayMs: envNumber(env.DIFY_RETRY_BASE_DELAY_MS) ?? file.retryBaseDelayMs,
+    retryMaxDelayMs: envNumber(env.DIFY_RETRY_MAX_DELAY_MS) ?? file.retryMaxDelayMs,
+    fallbacks,
+  };
+
+  const rawApps = parseJsonArray('DIFY_APPS', env.DIFY_APPS, problems) ?? fileApps ?? [];
+  if (!Array.isArray(rawApps)) {
+    problems.push('Dify config: apps must be an array');
+  }
+  const entries = (Array.isArray(rawApps) ? rawApps : []) as RawApp[];
+
+  // 他のアプリを登録した場合、既定のアプリはAPIキーがあるときだけ一覧に含める
+  const apps: DifyApp[] = [];
+  if (base.apiKey || entries.length === 0) {
+    apps.push(toRegisteredApp(base, DEFAULT_APP_ID, resolveAppConfig(base, 'Dify config', problems)));
+  }
+
+  // 登録したアプリは最上位の設定を引き継ぎ、指定した項目だけ上書きする（APIキーと予備のアプリは引き継がない）
+  entries.forEach((entry, i) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      problems.push(`Dify app ${i + 1}: must be an object with id, name and apiKey`);
+      return;
+    }
+    const source = `Dify app "${entry.id ?? i + 1}"`;
+    if (typeof entry.id !== 'string' || !APP_ID_PATTERN.test(entry.id)) {
+      problems.push(`${source}: id must consist of letters, digits, "-" or "_"`);
+      return;
+    }
+    if (apps.some((app) => app.id === entry.id)) {
+      problems.push(`${source}: id is duplicated`);
+      return;
+    }
+    const config = resolveAppConfig(
+      {
+        ...base,
+        ...entry,
+        apiKey: entry.apiKey,
+        inputNames: { ...base.inputNames, ...entry.inputNames },
+        fallbacks: entry.fallbacks ?? [],
+      },
+      source,
+      problems
+    );
+    apps.push(toRegisteredApp(entry, entry.id, config));
+  });
+
+  return { apps, problems };
+}
+
+let cached: { apps: DifyApp[]; problems: string[] } | null = null;
+
+// 設定の問題点を一覧で返す（起動時のチェック用）
+export function validateDifyConfig(): string[] {
+  cached ??= loadDifyConfig();
+  return cached.problems;
+}
+
+// 検証済みのアプリの一覧を返す（先頭が既定のアプリ）。問題があれば ConfigError を投げる
+export function getDifyApps(): DifyApp[] {
+  cached ??= loadDifyConfig();
+  if (cached.problems.length > 0) {
+    throw new ConfigError(cached.problems);
+  }
+  return cached.apps;
+}
+
+// 指定したアプリ（省略時は既定のアプリ）の設定を返す。登録されていないIDなら UnknownAppError を投げる
+export function getDifyConfig(appId?: string): DifyApp {
+  const apps = getDifyApps();
+  if (!appId) return apps[0];
+  const app = apps.find((a) => a.id === appId);
+  if (!app) {
+    throw new UnknownAppError(appId);
+  }
+  return app;
+}
+
+// API route 用: リクエストで指定されたアプリ（空なら既定のアプリ）の設定を返す
+// 登録されていないIDなら 400、設定に問題があれば 500 のレスポンスを返す
+export function resolveDifyApp(appId: unknown): DifyApp | NextResponse {
+  try {
+    return getDifyConfig(typeof appId === 'string' && appId ? appId : undefined);
+  } catch (e) {
+    if (e instanceof UnknownAppError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+    if (e instanceof ConfigError) {
+      return NextResponse.json({ error: e.problems.join('\n') }, { status: 500 });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,62 @@
+import type { Conversation } from '@/lib/types';
+
+// /api/conversations を呼び出すクライアント側のヘルパー
+
+export interface SyncResult {
+  // サーバー側の方が新しく、保存されなかった場合は true
+  conflict: boolean;
+  conversation: Conversation;
+}
+
+// status でセッション切れ（401）などを見分けられるようにする
+export class ConversationApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ConversationApiError';
+  }
+}
+
+async function readError(response: Response): Promise<ConversationApiError> {
+  const data = await response.json().catch(() => ({}));
+  return new ConversationApiError(data.error || `HTTP ${response.status}: ${response.statusText}`, response.status);
+}
+
+export async function fetchConversations(): Promise<Conversation[]> {
+  const response = await fetch('/api/conversations');
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  const data = await response.json();
+  return data.conversations;
+}
+
+// 作成（method: POST）または更新（method: PUT）
+async function sendConversation(conversation: Conversation, method: 'POST' | 'PUT'): Promise<SyncResult> {
+  const url = method === 'POST'
+    ? '/api/conversations'
+    : `/api/conversations/${encodeURIComponent(conversation.id)}`;
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ conversation }),
+  });
+  if (!response.ok && response.status !== 409) {
+    throw await readError(response);
+  }
+  const data = await response.json();
+  return { conflict: response.status === 409, conversation: data.conversation };
+}
+
+export const createConversation = (conversation: Conversation) => sendConversation(conversation, 'POST');
+
+export const saveConversation = (conversation: Conversation) => sendConversation(conversation, 'PUT');
+
+export async function deleteConversation(id: string): Promise<void> {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  // 未保存の会話を削除した場合は 404 になるが問題ない
+  if (!response.ok && response.status !== 404) {
+    throw await readError(response);
+  }
+}
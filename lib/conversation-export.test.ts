@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_SCHEMA_VERSION, parseConversationExport } from '@/lib/conversation-export';
+
+// エクスポート形式のJSON文字列を作る
+const exportOf = (messages: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: 2,
+    conversation: { id: 'c1', title: 'タイトル', createdAt: 1, updatedAt: 2, messages, ...extra },
+  });
+
+describe('parseConversationExport', () => {
+  it('親子関係が循環しているファイルを拒否する', () => {
+    expect(() => parseConversationExport(exportOf([
+      { id: 'a', role: 'user', content: 'q', parentId: 'a' },
+    ]))).toThrow('循環');
+    expect(() => parseConversationExport(exportOf([
+      { id: 'a', role: 'user', content: 'q', parentId: 'b' },
+      { id: 'b', role: 'assistant', content: 'a', parentId: 'a' },
+    ]))).toThrow('循環');
+  });
+
+  it('Dify側のIDと評価は引き継がない', () => {
+    const conversation = parseConversationExport(exportOf([
+      { id: 'a', role: 'user', content: 'q', parentId: null, attachments: [{ name: 'a.pdf', size: 3, mimeType: 'application/pdf', uploadFileId: 'f1' }] },
+      {
+        id: 'b', role: 'assistant', content: 'a', parentId: 'a',
+        difyMessageId: 'm1', difyConversationId: 'd1', feedback: { rating: 'like' },
+      },
+    ], { difyConversationId: 'd1' }));
+
+    expect(conversation).not.toHaveProperty('difyConversationId');
+    expect(conversation.messages).toEqual([
+      { id: 'a', role: 'user', content: 'q', parentId: null, attachments: [{ name: 'a.pdf', size: 3, mimeType: 'application/pdf' }] },
+      { id: 'b', role: 'assistant', content: 'a', parentId: 'a' },
+    ]);
+  });
+
+  it('形式の正しくない添付・ステップ・引用元は読み飛ばし、未知の項目は捨てる', () => {
+    const [message] = parseConversationExport(exportOf([
+      {
+        id: 'a', role: 'assistant', content: 'a', stopped: true, unknown: '<script>',
+        attachments: [{ name: 1 }, 'x'],
+        steps: [
+          { id: 's1', nodeId: 'n1', nodeType: 'llm', title: 'LLM', status: 'succeeded', startedAt: 1, elapsedTime: 0.5, extra: {} },
+          { id: 's2', nodeId: 'n2', nodeType: 'llm', title: 'LLM', status: 'exploded', startedAt: 1 },
+        ],
+        citations: [
+          { position: 1, documentName: 'doc', content: '本文', score: 0.9 },
+          { position: '1', documentName: { toString: 'x' }, content: '本文' },
+        ],
+      },
+    ])).messages;
+
+    expect(message).toEqual({
+      id: 'a',
+      role: 'assistant',
+      content: 'a',
+      stopped: true,
+      steps: [{ id: 's1', nodeId: 'n1', nodeType: 'llm', title: 'LLM', status: 'succeeded', startedAt: 1, elapsedTime: 0.5 }],
+      citations: [{ position: 1, documentName: 'doc', content: '本文', score: 0.9 }],
+    });
+  });
+
+  it('文字列でない parentId を拒否する', () => {
+    expect(() => parseConversationExport(exportOf([
+      { id: 'a', role: 'user', content: 'q', parentId: 1 },
+    ]))).toThrow('親メッセージのID');
+  });
+});
@@ -0,0 +1,292 @@
+import type { Attachment, Conversation, Message } from '@/lib/types';
+import type { Citation, WorkflowStep } from '@/lib/chat-stream';
+import { findCycle } from '@/lib/message-tree';
+
+// 会話のエクスポート（Markdown・JSON・印刷用HTML）とJSONからのインポート
+
+// JSON形式のバージョン（形式を変えたら上げ、parseConversationExport で旧形式も読めるようにする）
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ConversationExport {
+  schemaVersion: number;
+  exportedAt: number;
+  conversation: Conversation;
+}
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'ユーザー',
+  assistant: 'アシスタント',
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ja-JP', { dateStyle: 'medium', timeStyle: 'short' });
+
+// ファイル名に使えない文字を置き換える
+export const toExportFileName = (conversation: Conversation, extension: string) =>
+  `${conversation.title.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 50) || 'conversation'}.${extension}`;
+
+// 表示中の分岐をMarkdownにする（回答のMarkdownやコードブロックはそのまま残す）
+export function conversationToMarkdown(conversation: Conversation, path: Message[]): string {
+  const sections = path.map((message) => {
+    const lines = [`## ${ROLE_LABELS[message.role]}`, ''];
+    if (message.attachments && message.attachments.length > 0) {
+      lines.push(...message.attachments.map((a) => `- 📎 ${a.name}`), '');
+    }
+    lines.push(message.content);
+    if (message.stopped) {
+      lines.push('', '_（生成を停止しました）_');
+    }
+    if (message.citations && message.citations.length > 0) {
+      lines.push('', '**引用元**', '');
+      lines.push(...message.citations.map((c) => `${c.position}. ${c.documentName}${c.datasetName ? `（${c.datasetName}）` : ''}`));
+    }
+    return lines.join('\n');
+  });
+
+  return [
+    `# ${conversation.title}`,
+    '',
+    `> ${formatDateTime(conversation.createdAt)} 作成 / ${formatDateTime(conversation.updatedAt)} 更新`,
+    '',
+    sections.join('\n\n---\n\n'),
+    '',
+  ].join('\n');
+}
+
+// 分岐を含むすべてのメッセージを失わずに保存する
+export function conversationToJSON(conversation: Conversation): string {
+  const data: ConversationExport = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    conversation,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 印刷用のHTML（回答のMarkdownは呼び出し側でHTMLに変換して渡す）
+export function conversationToPrintableHtml(
+  conversation: Conversation,
+  path: Message[],
+  renderMarkdown: (markdown: string) => string
+): string {
+  const body = path
+    .map((message) => {
+      const attachments = message.attachments && message.attachments.length > 0
+        ? `<ul class="attachments">${message.attachments.map((a) => `<li>📎 ${escapeHtml(a.name)}</li>`).join('')}</ul>`
+        : '';
+      // ユーザーの入力はMarkdownとして解釈せず、そのまま表示する
+      const content = message.role === 'assistant'
+        ? renderMarkdown(message.content)
+        : `<p class="plain">${escapeHtml(message.content)}</p>`;
+      const stopped = message.stopped ? '<p class="note">（生成を停止しました）</p>' : '';
+      return `<section class="message ${message.role}"><h2>${ROLE_LABELS[message.role]}</h2>${attachments}${content}${stopped}</section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>
+  body { font-family: "Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif; color: #111; line-height: 1.7; max-width: 780px; margin: 2rem auto; padding: 0 1.5rem; }
+  header { border-bottom: 2px solid #10a37f; margin-bottom: 1.5rem; }
+  header h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+  header p { color: #555; font-size: 0.85rem; margin: 0 0 0.75rem; }
+  .message { border: 1px solid #ddd; border-radius: 8px; padding: 0.75rem 1rem; margin-bottom: 1rem; break-inside: avoid-page; }
+  .message.user { background: #f3faf7; }
+  .message h2 { font-size: 0.8rem; color: #10a37f; margin: 0 0 0.5rem; letter-spacing: 0.05em; }
+  .plain { white-space: pre-wrap; margin: 0; }
+  .attachments { list-style: none; padding: 0; margin: 0 0 0.5rem; font-size: 0.85rem; color: #555; }
+  .note { color: #777; font-size: 0.8rem; font-style: italic; }
+  pre { background: #f5f5f5; border: 1px solid #e5e5e5; border-radius: 6px; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; word-break: break-all; }
+  code { font-family: "SFMono-Regular", Consolas, monospace; font-size: 0.85em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; }
+  /* KaTeXのスタイルは読み込まないため、数式はMathMLで表示する */
+  .katex-html { display: none; }
+  @media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  <p>${escapeHtml(formatDateTime(conversation.createdAt))} 作成 / ${escapeHtml(formatDateTime(conversation.updatedAt))} 更新</p>
+</header>
+${body}
+</body>
+</html>
+`;
+}
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const optionalNumber = (value: unknown) => (isFiniteNumber(value) ? value : undefined);
+
+// 配列のうち形式の正しい要素だけを、既知の項目に絞って残す
+function pickValid<T>(value: unknown, pick: (item: Record<string, unknown>) => T | null): T[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    const picked = isObject(item) ? pick(item) : null;
+    return picked ? [picked] : [];
+  });
+}
+
+// アップロード先のファイルidは元のユーザーのものなので引き継がない（読み込んだ会話の添付は送り直せない）
+const toAttachment = (a: Record<string, unknown>): Attachment | null =>
+  typeof a.name === 'string' && isFiniteNumber(a.size) && typeof a.mimeType === 'string'
+    ? { name: a.name, size: a.size, mimeType: a.mimeType }
+    : null;
+
+const STEP_STATUSES: WorkflowStep['status'][] = ['running', 'succeeded', 'failed', 'stopped'];
+
+const toWorkflowStep = (s: Record<string, unknown>): WorkflowStep | null => {
+  if (
+    typeof s.id !== 'string' || typeof s.nodeId !== 'string' || typeof s.nodeType !== 'string' ||
+    typeof s.title !== 'string' || !STEP_STATUSES.includes(s.status as WorkflowStep['status']) || !isFiniteNumber(s.startedAt)
+  ) {
+    return null;
+  }
+  const elapsedTime = optionalNumber(s.elapsedTime);
+  const totalTokens = optionalNumber(s.totalTokens);
+  const error = optionalString(s.error);
+  return {
+    id: s.id,
+    nodeId: s.nodeId,
+    nodeType: s.nodeType,
+    title: s.title,
+    status: s.status as WorkflowStep['status'],
+    startedAt: s.startedAt,
+    ...(elapsedTime !== undefined && { elapsedTime }),
+    ...(totalTokens !== undefined && { totalTokens }),
+    ...(error !== undefined && { error }),
+  };
+};
+
+const toCitation = (c: Record<string, unknown>): Citation | null => {
+  if (!isFiniteNumber(c.position) || typeof c.documentName !== 'string' || typeof c.content !== 'string') {
+    return null;
+  }
+  const datasetName = optionalString(c.datasetName);
+  const score = optionalNumber(c.score);
+  const documentId = optionalString(c.documentId);
+  const segmentId = optionalString(c.segmentId);
+  return {
+    position: c.position,
+    documentName: c.documentName,
+    content: c.content,
+    ...(datasetName !== undefined && { datasetName }),
+    ...(score !== undefined && { score }),
+    ...(documentId !== undefined && { documentId }),
+    ...(segmentId !== undefined && { segmentId }),
+  };
+};
+
+// 読み込むメッセージの項目を絞る（parentId は検証済み）
+// Dify側の会話ID・メッセージIDと評価は元のユーザーに紐づくため引き継がない（評価や停止の送信先にならないようにする）
+function toImportedMessage(message: Message): Message {
+  const attachments = pickValid(message.attachments, toAttachment);
+  const steps = pickValid(message.steps, toWorkflowStep);
+  const citations = pickValid(message.citations, toCitation);
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    ...(message.parentId !== undefined && { parentId: message.parentId }),
+    ...(attachments.length > 0 && { attachments }),
+    ...(message.stopped === true && { stopped: true }),
+    ...(steps.length > 0 && { steps }),
+    ...(citations.length > 0 && { citations }),
+  };
+}
+
+// エクスポートしたJSONを検証して会話に戻す。問題があれば理由を添えて Error を投げる
+export function parseConversationExport(text: string): Conversation {
+  let data: Partial<ConversationExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('JSONとして読み込めません');
+  }
+
+  if (!data || typeof data !== 'object' || typeof data.schemaVersion !== 'number') {
+    throw new Error('エクスポートした会話のファイルではありません');
+  }
+  if (data.schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`新しい形式（バージョン${data.schemaVersion}）のファイルには対応していません`);
+  }
+
+  const conv = data.conversation as Conversation | undefined;
+  if (!conv || typeof conv !== 'object') {
+    throw new Error('会話のデータがありません');
+  }
+  if (typeof conv.id !== 'string' || !conv.id) {
+    throw new Error('会話のIDがありません');
+  }
+  if (typeof conv.title !== 'string') {
+    throw new Error('会話のタイトルがありません');
+  }
+  if (!isTimestamp(conv.createdAt) || !isTimestamp(conv.updatedAt) || conv.createdAt > conv.updatedAt) {
+    throw new Error('会話の作成日時・更新日時が正しくありません');
+  }
+  if (!Array.isArray(conv.messages) || conv.messages.length === 0) {
+    throw new Error('メッセージがありません');
+  }
+
+  const ids = new Set<string>();
+  for (const message of conv.messages) {
+    if (
+      !message || typeof message.id !== 'string' || !message.id ||
+      (message.role !== 'user' && message.role !== 'assistant') ||
+      typeof message.content !== 'string'
+    ) {
+      throw new Error('形式が正しくないメッセージが含まれています');
+    }
+    if (ids.has(message.id)) {
+      throw new Error(`メッセージID「${message.id}」が重複しています`);
+    }
+    ids.add(message.id);
+  }
+  for (const message of conv.messages) {
+    if (message.parentId !== undefined && message.parentId !== null && typeof message.parentId !== 'string') {
+      throw new Error(`メッセージ「${message.id}」の親メッセージのIDが正しくありません`);
+    }
+    if (message.parentId && !ids.has(message.parentId)) {
+      throw new Error(`メッセージ「${message.id}」の親メッセージが見つかりません`);
+    }
+  }
+  const cyclic = findCycle(conv.messages);
+  if (cyclic) {
+    throw new Error(`メッセージ「${cyclic}」の親子関係が循環しています`);
+  }
+  if (conv.currentLeafId !== undefined && !ids.has(conv.currentLeafId)) {
+    throw new Error('表示中のメッセージが見つかりません');
+  }
+
+  return {
+    id: conv.id,
+    title: conv.title,
+    messages: conv.messages.map(toImportedMessage),
+    ...(conv.currentLeafId && { currentLeafId: conv.currentLeafId }),
+    ...(conv.titleEdited === true && { titleEdited: true }),
+    ...(conv.titleGenerated === true && { titleGenerated: true }),
+    ...(conv.pinned === true && { pinned: true }),
+    ...(typeof conv.folder === 'string' && conv.folder && { folder: conv.folder }),
+    ...(typeof conv.appId === 'string' && conv.appId && { appId: conv.appId }),
+    // Dify側の会話は元のユーザーに紐づくため引き継がない
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+  };
+}
@@ -0,0 +1,52 @@
+import type { Conversation } from '@/lib/types';
+
+// サイドバーの会話一覧の並び（ピン留め → フォルダ → 更新日ごと）
+
+export interface ConversationGroup {
+  key: string;
+  label: string;
+  conversations: Conversation[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const byUpdatedAt = (a: Conversation, b: Conversation) => b.updatedAt - a.updatedAt;
+
+// 会話に付いているフォルダ名（名前順）
+export function getFolders(conversations: Conversation[]): string[] {
+  const folders = new Set(conversations.map((c) => c.folder).filter((f): f is string => !!f));
+  return [...folders].sort((a, b) => a.localeCompare(b, 'ja'));
+}
+
+// ピン留めした会話を先頭に、次にフォルダごと、残りは「今日・昨日・過去7日間・それ以前」にまとめる
+export function groupConversations(conversations: Conversation[], now = Date.now()): ConversationGroup[] {
+  const sorted = [...conversations].sort(byUpdatedAt);
+  const groups: ConversationGroup[] = [];
+
+  const pinned = sorted.filter((c) => c.pinned);
+  if (pinned.length > 0) {
+    groups.push({ key: 'pinned', label: 'ピン留め', conversations: pinned });
+  }
+
+  const rest = sorted.filter((c) => !c.pinned);
+  for (const folder of getFolders(rest)) {
+    groups.push({ key: `folder:${folder}`, label: folder, conversations: rest.filter((c) => c.folder === folder) });
+  }
+
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  const dateGroups: ConversationGroup[] = [
+    { key: 'today', label: '今日', conversations: [] },
+    { key: 'yesterday', label: '昨日', conversations: [] },
+    { key: 'week', label: '過去7日間', conversations: [] },
+    { key: 'older', label: 'それ以前', conversations: [] },
+  ];
+  for (const conversation of rest.filter((c) => !c.folder)) {
+    const index = conversation.updatedAt >= startOfToday ? 0
+      : conversation.updatedAt >= startOfToday - DAY ? 1
+        : conversation.updatedAt >= startOfToday - 7 * DAY ? 2
+          : 3;
+    dateGroups[index].conversations.push(conversation);
+  }
+
+  return [...groups, ...dateGroups.filter((g) => g.conversations.length > 0)];
+}
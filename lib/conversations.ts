@@ -0,0 +1,72 @@
+import { readCollection, updateCollection } from '@/lib/store';
+import type { Conversation } from '@/lib/types';
+
+// ユーザーごとの会話をJSONファイルストアに保存する
+
+interface StoredConversation extends Conversation {
+  userId: string;
+}
+
+export type SaveResult =
+  | { status: 'saved'; conversation: Conversation }
+  // サーバー側の方が新しい場合は保存せず、サーバー側の会話を返す
+  | { status: 'conflict'; conversation: Conversation };
+
+function toConversation(stored: StoredConversation): Conversation {
+  const conversation: Partial<StoredConversation> = { ...stored };
+  delete conversation.userId;
+  return conversation as Conversation;
+}
+
+// 保存前に形式を確認
+export function isValidConversation(value: unknown): value is Conversation {
+  const conv = value as Conversation;
+  return (
+    !!conv &&
+    typeof conv.id === 'string' && conv.id.length > 0 &&
+    typeof conv.title === 'string' &&
+    Array.isArray(conv.messages) &&
+    conv.messages.every((m) => typeof m?.id === 'string' && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string') &&
+    Number.isFinite(conv.createdAt) &&
+    Number.isFinite(conv.updatedAt)
+  );
+}
+
+export async function listConversations(userId: string): Promise<Conversation[]> {
+  const conversations = await readCollection<StoredConversation>('conversations');
+  return conversations
+    .filter((c) => c.userId === userId)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(toConversation);
+}
+
+export async function getConversation(userId: string, id: string): Promise<Conversation | null> {
+  const conversations = await readCollection<StoredConversation>('conversations');
+  const conversation = conversations.find((c) => c.userId === userId && c.id === id);
+  return conversation ? toConversation(conversation) : null;
+}
+
+// 作成または更新（updatedAt が新しい方を採用する）
+export function saveConversation(userId: string, conversation: Conversation): Promise<SaveResult> {
+  return updateCollection<StoredConversation, SaveResult>('conversations', (conversations) => {
+    const existing = conversations.find((c) => c.userId === userId && c.id === conversation.id);
+    if (existing && existing.updatedAt > conversation.updatedAt) {
+      return { items: conversations, result: { status: 'conflict', conversation: toConversation(existing) } };
+    }
+
+    const stored: StoredConversation = { ...conversation, userId };
+    return {
+      items: existing
+        ? conversations.map((c) => (c === existing ? stored : c))
+        : [...conversations, stored],
+      result: { status: 'saved', conversation },
+    };
+  });
+}
+
+export function deleteConversation(userId: string, id: string): Promise<boolean> {
+  return updateCollection<StoredConversation, boolean>('conversations', (conversations) => {
+    const remaining = conversations.filter((c) => !(c.userId === userId && c.id === id));
+    return { items: remaining, result: remaining.length !== conversations.length };
+  });
+}
@@ -0,0 +1,316 @@
+import type { DifyAppConfig } from '@/lib/config';
+
+// Dify の /files/upload が返すファイル情報
+export interface DifyUploadedFile {
+  id: string;
+  name: string;
+  size: number;
+  extension: string;
+  mime_type: string;
+}
+
+// ワークフローのファイル入力に渡す形式
+export interface DifyWorkflowFile {
+  type: 'image' | 'document' | 'audio' | 'video' | 'custom';
+  transfer_method: 'local_file';
+  upload_file_id: string;
+}
+
+// node_started / node_finished イベントの data
+export interface DifyNodeEventData {
+  id: string;
+  node_id: string;
+  node_type: string;
+  title?: string;
+  status?: 'running' | 'succeeded' | 'failed' | 'stopped';
+  error?: string | null;
+  elapsed_time?: number;
+  execution_metadata?: {
+    total_tokens?: number;
+  } | null;
+  created_at?: number;
+}
+
+// message_end / workflow_finished の metadata.retriever_resources の各要素
+export interface DifyRetrieverResource {
+  position?: number;
+  dataset_id?: string;
+  dataset_name?: string;
+  document_id?: string;
+  document_name?: string;
+  segment_id?: string;
+  score?: number | null;
+  content?: string;
+}
+
+const DOCUMENT_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt', 'md', 'csv', 'xls', 'xlsx', 'ppt', 'pptx'];
+
+// MIMEタイプと拡張子からDifyのファイル種別を判定
+export function getDifyFileType(mimeType: string, extension: string): DifyWorkflowFile['type'] {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (DOCUMENT_EXTENSIONS.includes(extension.toLowerCase())) return 'document';
+  return 'custom';
+}
+
+// ファイルをDifyにアップロードし、ワークフロー入力用の形式で返す
+export async function uploadFileToDify(
+  app: DifyAppConfig,
+  file: File,
+  user: string
+): Promise<DifyWorkflowFile> {
+  const formData = new FormData();
+  formData.append('file', file, file.name);
+  formData.append('user', user);
+
+  const response = await fetch(`${app.baseUrl}/files/upload`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${app.apiKey}`,
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`File upload failed (${file.name}): HTTP ${response.status} ${errorText}`);
+  }
+
+  const uploaded: DifyUploadedFile = await response.json();
+  return {
+    type: getDifyFileType(uploaded.mime_type || file.type, uploaded.extension || ''),
+    transfer_method: 'local_file',
+    upload_file_id: uploaded.id,
+  };
+}
+
+// アップロード済みのファイル（再生成で送り直す場合）をワークフロー入力用の形式にする
+export function toUploadedWorkflowFile(uploadFileId: string, fileName: string, mimeType: string): DifyWorkflowFile {
+  const extension = fileName.includes('.') ? fileName.slice(fileName.lastIndexOf('.') + 1) : '';
+  return {
+    type: getDifyFileType(mimeType, extension),
+    transfer_method: 'local_file',
+    upload_file_id: uploadFileId,
+  };
+}
+
+// アプリ種別ごとの実行エンドポイント
+const RUN_PATHS: Record<DifyAppConfig['appType'], string> = {
+  workflow: '/workflows/run',
+  chatflow: '/chat-messages',
+  completion: '/completion-messages',
+};
+
+export interface DifyRunParams {
+  query: string;
+  history: string;
+  files: DifyWorkflowFile[];
+  user: string;
+  // チャットフローの会話ID（2回目以降）
+  conversationId?: string;
+  // チャットフローで続ける回答のメッセージID（再生成・編集で分岐する場合）
+  parentMessageId?: string;
+}
+
+// アプリ種別に応じた実行リクエストを組み立てる
+export function buildRunRequest(app: DifyAppConfig, params: DifyRunParams): { url: string; body: Record<string, unknown> } {
+  const { inputNames } = app;
+  const inputs: Record<string, unknown> = { ...app.extraInputs };
+  const body: Record<string, unknown> = {
+    inputs,
+    response_mode: 'streaming',
+    user: params.user,
+  };
+
+  if (app.appType === 'chatflow') {
+    // チャットフローは質問とファイルを inputs の外で渡し、履歴は conversation_id でDify側が保持する（history は渡さない）
+    body.query = params.query;
+    if (params.conversationId) {
+      body.conversation_id = params.conversationId;
+      if (params.parentMessageId) {
+        body.parent_message_id = params.parentMessageId;
+      }
+    }
+    if (params.files.length > 0) {
+      body.files = params.files;
+    }
+  } else {
+    inputs[inputNames.history] = params.history;
+    inputs[inputNames.query] = params.query;
+    if (params.files.length > 0) {
+      if (app.appType === 'workflow') {
+        inputs[inputNames.files] = params.files;
+      } else {
+        body.files = params.files;
+      }
+    }
+  }
+
+  return { url: `${app.baseUrl}${RUN_PATHS[app.appType]}`, body };
+}
+
+// workflow_finished の outputs から回答を取り出す
+export function extractWorkflowOutput(app: DifyAppConfig, outputs: unknown): string {
+  return pickOutput(outputs, app.outputVariable);
+}
+
+// 指定した変数（未指定なら最初の文字列）を取り出す
+function pickOutput(outputs: unknown, variable: string | undefined): string {
+  if (typeof outputs === 'string') return outputs;
+  if (!outputs || typeof outputs !== 'object') return '';
+  const values = outputs as Record<string, unknown>;
+  if (variable) {
+    const value = values[variable];
+    return typeof value === 'string' ? value : '';
+  }
+  const first = Object.values(values).find((v): v is string => typeof v === 'string');
+  return first ?? '';
+}
+
+// アプリ種別ごとの停止エンドポイント
+const STOP_PATHS: Record<DifyAppConfig['appType'], (taskId: string) => string> = {
+  workflow: (taskId) => `/workflows/tasks/${encodeURIComponent(taskId)}/stop`,
+  chatflow: (taskId) => `/chat-messages/${encodeURIComponent(taskId)}/stop`,
+  completion: (taskId) => `/completion-messages/${encodeURIComponent(taskId)}/stop`,
+};
+
+// 実行中のタスクを停止する
+export async function stopTask(app: DifyAppConfig, taskId: string, user: string): Promise<void> {
+  const response = await fetch(`${app.baseUrl}${STOP_PATHS[app.appType](taskId)}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${app.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ user }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Failed to stop task ${taskId}: HTTP ${response.status} ${errorText}`);
+  }
+}
+
+// 音声ファイルを文字起こしする
+export async function audioToText(app: DifyAppConfig, file: File, user: string): Promise<string> {
+  const formData = new FormData();
+  formData.append('file', file, file.name);
+  formData.append('user', user);
+
+  const response = await fetch(`${app.baseUrl}/audio-to-text`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${app.apiKey}`,
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Speech-to-text failed: HTTP ${response.status} ${errorText}`);
+  }
+
+  const data: { text?: string } = await response.json();
+  return data.text ?? '';
+}
+
+// テキストを音声に変換する。音声データはストリームのまま返す
+export async function textToAudio(app: DifyAppConfig, text: string, user: string, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${app.baseUrl}/text-to-audio`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${app.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ text, user }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Text-to-speech failed: HTTP ${response.status} ${errorText}`);
+  }
+
+  return response;
+}
+
+// 会話タイトルとして使えるよう1行にして長さを抑える
+const cleanTitle = (title: string) =>
+  title.replace(/^["'「『]+|["'」』]+$/g, '').replace(/\s+/g, ' ').trim().slice(0, 40);
+
+// チャットフローの会話名をDifyに自動生成させる
+export async function generateConversationName(app: DifyAppConfig, conversationId: string, user: string): Promise<string> {
+  const response = await fetch(`${app.baseUrl}/conversations/${encodeURIComponent(conversationId)}/name`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${app.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ auto_generate: true, user }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Conversation name generation failed: HTTP ${response.status} ${errorText}`);
+  }
+
+  const data: { name?: string } = await response.json();
+  return cleanTitle(data.name ?? '');
+}
+
+// タイトル生成用のワークフロー（titleApiKey）で最初の質問と回答からタイトルを作る
+export async function runTitleWorkflow(app: DifyAppConfig, question: string, answer: string, user: string): Promise<string> {
+  if (!app.titleApiKey) {
+    throw new Error('Title workflow is not configured');
+  }
+
+  const response = await fetch(`${app.baseUrl}/workflows/run`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${app.titleApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      inputs: { question, answer },
+      response_mode: 'blocking',
+      user,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Title workflow failed: HTTP ${response.status} ${errorText}`);
+  }
+
+  const data: { data?: { status?: string; outputs?: unknown; error?: string } } = await response.json();
+  if (data.data?.status && data.data.status !== 'succeeded') {
+    throw new Error(`Title workflow ${data.data.status}: ${data.data.error ?? ''}`);
+  }
+  return cleanTitle(pickOutput(data.data?.outputs, app.titleOutputVariable));
+}
+
+export type FeedbackRating = 'like' | 'dislike';
+
+// 回答への評価を送る（rating が null なら評価を取り消す）
+export async function sendMessageFeedback(
+  app: DifyAppConfig,
+  messageId: string,
+  rating: FeedbackRating | null,
+  user: string,
+  content?: string
+): Promise<void> {
+  const response = await fetch(`${app.baseUrl}/messages/${encodeURIComponent(messageId)}/feedbacks`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${app.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ rating, user, ...(content && { content }) }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Message feedback failed: HTTP ${response.status} ${errorText}`);
+  }
+}
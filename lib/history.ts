@@ -0,0 +1,30 @@
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+// 過去の会話をワークフロー入力用のテキストに変換する
+// 文字数の上限を超える場合は古いターンから切り捨てる
+export function serializeHistory(messages: ChatMessage[], maxChars: number): string {
+  const lines: string[] = [];
+  let total = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    const line = `${ROLE_LABELS[message.role]}: ${message.content}`;
+    // 区切りの改行も含めてカウント
+    const cost = line.length + (lines.length > 0 ? 1 : 0);
+    if (total + cost > maxChars) {
+      break;
+    }
+    lines.unshift(line);
+    total += cost;
+  }
+
+  return lines.join('\n');
+}
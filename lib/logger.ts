@@ -0,0 +1,115 @@
+import { randomUUID } from 'crypto';
+
+// サーバーの構造化ログ（1行1件のJSON）
+// 出力するレベルは LOG_LEVEL（debug / info / warn / error、既定は info）で指定する
+// APIキー・トークン・パスワードは常に伏せ、質問や回答などの本文は LOG_LEVEL=debug のときだけそのまま出す
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // fields を毎回のログに含めるロガー（リクエストIDなど）
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// リクエストIDを受け付けるヘッダー（そのまま返す）
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const REDACTED = '[REDACTED]';
+
+// キー名で判定する
+const SECRET_KEY = /api[-_]?key|authorization|cookie|password|secret|token(?!s$)|^key$/i;
+const CONTENT_KEY = /^(query|inputs|history|content|answer|text|outputs|comment|messages|body|errorText)$/i;
+
+// 文字列中のAPIキー（app-xxx / dataset-xxx）とBearerトークン
+const SECRET_PATTERNS = [/\b(app|dataset)-[A-Za-z0-9]{8,}/g, /Bearer\s+[^\s"',]+/gi];
+
+function currentLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : 'info';
+}
+
+const showContent = () => currentLevel() === 'debug';
+
+function maskSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce((result, pattern) => result.replace(pattern, REDACTED), text);
+}
+
+function redactContent(value: unknown): unknown {
+  if (typeof value === 'string') return `[REDACTED: ${value.length} chars]`;
+  if (Array.isArray(value)) return `[REDACTED: ${value.length} items]`;
+  return REDACTED;
+}
+
+// ログに出せる値にする（Error は name・message・stack、循環参照は打ち切る）
+export function redact(value: unknown, key = '', seen = new WeakSet<object>()): unknown {
+  if (key && SECRET_KEY.test(key) && value !== undefined && value !== null && typeof value !== 'boolean') {
+    return REDACTED;
+  }
+  if (key && CONTENT_KEY.test(key) && value !== undefined && value !== null && !showContent()) {
+    return redactContent(value);
+  }
+  if (typeof value === 'string') return maskSecrets(value);
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: maskSecrets(value.message),
+      ...(value.stack && { stack: maskSecrets(value.stack) }),
+      ...(value.cause !== undefined && { cause: redact(value.cause, '', seen) }),
+    };
+  }
+  if (value instanceof Headers) {
+    return redact(Object.fromEntries(value.entries()), key, seen);
+  }
+  if (value && typeof value === 'object') {
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+    if (Array.isArray(value)) return value.map((item) => redact(item, '', seen));
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k, seen)]));
+  }
+  return value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVELS[level] < LEVELS[currentLevel()]) return;
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: maskSecrets(message),
+    ...(redact(fields) as LogFields),
+  });
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export function createLogger(context: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) =>
+    write(level, message, { ...context, ...fields });
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields) => createLogger({ ...context, ...fields }),
+  };
+}
+
+export const logger = createLogger();
+
+// クライアントから渡されたIDが安全な形式ならそれを使い、なければ新しく作る
+export function getRequestId(headers: Headers): string {
+  const incoming = headers.get(REQUEST_ID_HEADER);
+  return incoming && /^[A-Za-z0-9_-]{8,64}$/.test(incoming) ? incoming : randomUUID();
+}
@@ -0,0 +1,77 @@
+// 会話のメッセージを parentId でつないだツリーとして扱うためのヘルパー
+// 再生成や編集で作られた別の回答・質問は、同じ親を持つ兄弟として保持する
+
+export interface TreeNode {
+  id: string;
+  // ルートのメッセージは null
+  parentId?: string | null;
+}
+
+// parentId を持たない古い形式（一直線の配列）をツリー形式に変換
+export function normalizeTree<T extends TreeNode>(nodes: T[]): T[] {
+  return nodes.map((node, index) =>
+    node.parentId !== undefined
+      ? node
+      : { ...node, parentId: index > 0 ? nodes[index - 1].id : null }
+  );
+}
+
+// 同じ親を持つメッセージ（作成順）
+export function getSiblings<T extends TreeNode>(nodes: T[], node: T): T[] {
+  const parentId = node.parentId ?? null;
+  return nodes.filter((n) => (n.parentId ?? null) === parentId);
+}
+
+// 指定したメッセージから、最も新しい子を辿った末端のメッセージ（循環していれば一巡したところで止める）
+export function findLatestLeaf<T extends TreeNode>(nodes: T[], fromId: string): T | undefined {
+  let current = nodes.find((n) => n.id === fromId);
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    const parentId = current.id;
+    const children = nodes.filter((n) => n.parentId === parentId);
+    if (children.length === 0) break;
+    current = children[children.length - 1];
+  }
+  return current;
+}
+
+// ルートから指定した末端までのメッセージ（循環していれば一巡したところで止める）
+export function getActivePath<T extends TreeNode>(nodes: T[], leafId: string | undefined): T[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const path: T[] = [];
+  const seen = new Set<string>();
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+// 親を辿ってルートに届かない（循環している）メッセージがあれば、そのIDを返す
+export function findCycle<T extends TreeNode>(nodes: T[]): string | undefined {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  // ルートに届くことを確認済みのID
+  const rooted = new Set<string>();
+  for (const node of nodes) {
+    const visited = new Set<string>();
+    let current: T | undefined = node;
+    while (current && !rooted.has(current.id)) {
+      if (visited.has(current.id)) return node.id;
+      visited.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    visited.forEach((id) => rooted.add(id));
+  }
+  return undefined;
+}
+
+// 表示中の経路をツリーに反映（新しいメッセージは追加、既存のものは置き換え）
+export function mergePath<T extends TreeNode>(nodes: T[], path: T[]): T[] {
+  const pathById = new Map(path.map((n) => [n.id, n]));
+  const merged = nodes.map((n) => pathById.get(n.id) ?? n);
+  const existingIds = new Set(nodes.map((n) => n.id));
+  return [...merged, ...path.filter((n) => !existingIds.has(n.id))];
+}
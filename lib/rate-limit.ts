@@ -0,0 +1,126 @@
+// /api/chat の回数制限と1日あたりのトークン上限
+// カウンタは既定でプロセス内のメモリに持つ。複数インスタンスで共有する場合は setRateLimitStore で差し替える
+
+export interface RateLimitStore {
+  // key のカウンタに amount を加えて加算後の値を返す。期限（resetAt、ミリ秒）を過ぎていれば0から数え直す
+  increment(key: string, amount: number, resetAt: number): Promise<number>;
+  // 現在の値（期限切れ・未使用なら0）
+  get(key: string): Promise<number>;
+}
+
+export interface RateLimitConfig {
+  // 1分あたりのリクエスト数（0なら無制限）
+  perMinute: number;
+  // 1日あたりのリクエスト数（0なら無制限）
+  perDay: number;
+  // 1日あたりのトークン数（0なら無制限）
+  dailyTokens: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'minute' | 'day' | 'tokens'; retryAfter: number };
+
+// メモリ上のカウンタ（期限切れのものは一定間隔で削除）
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, { value: number; resetAt: number }>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) return;
+    lastSweep = now;
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= now) counters.delete(key);
+    }
+  };
+
+  return {
+    async increment(key, amount, resetAt) {
+      const now = Date.now();
+      sweep(now);
+      const counter = counters.get(key);
+      if (!counter || counter.resetAt <= now) {
+        counters.set(key, { value: amount, resetAt });
+        return amount;
+      }
+      counter.value += amount;
+      return counter.value;
+    },
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.resetAt > Date.now() ? counter.value : 0;
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+const readLimit = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    perMinute: readLimit('RATE_LIMIT_PER_MINUTE', 20),
+    perDay: readLimit('RATE_LIMIT_PER_DAY', 500),
+    dailyTokens: readLimit('DAILY_TOKEN_QUOTA', 0),
+  };
+}
+
+// 1分ごとの区切りと、日付（サーバーのローカル時刻）ごとの区切り
+function windows(now: number) {
+  const minuteStart = Math.floor(now / 60_000) * 60_000;
+  const date = new Date(now);
+  const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  const tomorrow = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+  return { minute: minuteStart, minuteReset: minuteStart + 60_000, day, dayReset: tomorrow };
+}
+
+// ログイン中はユーザーID、そうでなければ接続元IPで数える
+export function getRateLimitKey(headers: Headers, userId?: string): string {
+  if (userId) return `user:${userId}`;
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return `ip:${forwarded || headers.get('x-real-ip') || 'unknown'}`;
+}
+
+// リクエストを1回分数え、上限を超えていれば再試行までの秒数を返す
+export async function checkRateLimit(key: string, config = getRateLimitConfig()): Promise<RateLimitResult> {
+  const now = Date.now();
+  const w = windows(now);
+  const secondsUntil = (time: number) => Math.max(1, Math.ceil((time - now) / 1000));
+
+  if (config.dailyTokens > 0) {
+    const used = await store.get(`tokens:${key}:${w.day}`);
+    if (used >= config.dailyTokens) {
+      return { allowed: false, reason: 'tokens', retryAfter: secondsUntil(w.dayReset) };
+    }
+  }
+
+  if (config.perMinute > 0) {
+    const count = await store.increment(`minute:${key}:${w.minute}`, 1, w.minuteReset);
+    if (count > config.perMinute) {
+      return { allowed: false, reason: 'minute', retryAfter: secondsUntil(w.minuteReset) };
+    }
+  }
+
+  if (config.perDay > 0) {
+    const count = await store.increment(`day:${key}:${w.day}`, 1, w.dayReset);
+    if (count > config.perDay) {
+      return { allowed: false, reason: 'day', retryAfter: secondsUntil(w.dayReset) };
+    }
+  }
+
+  return { allowed: true };
+}
+
+// Difyが報告した使用トークン数を当日の合計に加える
+export async function recordTokenUsage(key: string, tokens: number): Promise<void> {
+  if (!Number.isFinite(tokens) || tokens <= 0) return;
+  const w = windows(Date.now());
+  await store.increment(`tokens:${key}:${w.day}`, tokens, w.dayReset);
+}
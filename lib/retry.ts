@@ -0,0 +1,40 @@
+// Difyへのリクエストの再試行（指数バックオフ + ジッター）
+
+// 再試行する（一時的な）エラーのステータス
+export const RETRYABLE_STATUSES = [429, 502, 503];
+
+// Retry-After ヘッダー（秒数またはHTTP日付）をミリ秒にする。読めなければ null
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.ceil(seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// attempt 回目（1から）の失敗後の待ち時間。基準の 2^(attempt-1) 倍（上限あり）の半分から全体までの範囲でばらつかせる
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number, random = Math.random): number {
+  const exponential = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+// 待機する。signal が中断されたら AbortError で reject する
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
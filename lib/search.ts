@@ -0,0 +1,181 @@
+import type { Conversation, Message } from '@/lib/types';
+
+// 全会話のメッセージ本文を対象にした全文検索
+// 日本語は単語の区切りがないため、文字のバイグラム（2文字ずつ）で索引を作り、候補を本文で確認する
+
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: Message['role'];
+  // 一致箇所の前後を切り出した本文
+  snippet: string;
+  // snippet 内の一致箇所 [開始, 終了)
+  highlights: [number, number][];
+  updatedAt: number;
+}
+
+interface IndexedMessage {
+  conversation: Conversation;
+  message: Message;
+  // 正規化した本文と、その各文字に対応する元の本文の位置
+  normalized: string;
+  positions: number[];
+}
+
+export interface SearchIndex {
+  entries: IndexedMessage[];
+  // バイグラム → entries の添字
+  grams: Map<string, Set<number>>;
+}
+
+const SNIPPET_CONTEXT = 30;
+
+// 全角英数・半角カナの揺れと大文字小文字を吸収する
+function normalize(text: string): { normalized: string; positions: number[] } {
+  let normalized = '';
+  const positions: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const folded = char.normalize('NFKC').toLowerCase();
+    // 半角カナの濁点・半濁点は直前の文字と合成する（ｶﾞ → ガ）
+    if (/^[\u3099\u309A]$/.test(folded) && normalized) {
+      const composed = (normalized.slice(-1) + folded).normalize('NFC');
+      if (composed.length === 1) {
+        normalized = normalized.slice(0, -1) + composed;
+        offset += char.length;
+        continue;
+      }
+    }
+    for (let i = 0; i < folded.length; i++) {
+      positions.push(offset);
+    }
+    normalized += folded;
+    offset += char.length;
+  }
+  positions.push(offset);
+  return { normalized, positions };
+}
+
+function bigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) {
+    grams.add(text.slice(i, i + 2));
+  }
+  return grams;
+}
+
+export function buildSearchIndex(conversations: Conversation[]): SearchIndex {
+  const entries: IndexedMessage[] = [];
+  const grams = new Map<string, Set<number>>();
+
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      const { normalized, positions } = normalize(message.content);
+      const index = entries.length;
+      entries.push({ conversation, message, normalized, positions });
+      for (const gram of bigrams(normalized)) {
+        let postings = grams.get(gram);
+        if (!postings) {
+          postings = new Set();
+          grams.set(gram, postings);
+        }
+        postings.add(index);
+      }
+    }
+  }
+
+  return { entries, grams };
+}
+
+const intersect = (a: Set<number>, b: Set<number>) => new Set([...a].filter((i) => b.has(i)));
+
+// 語のバイグラムをすべて含むメッセージ（1文字の語は絞り込めないので全件）
+function candidatesFor(index: SearchIndex, term: string): Set<number> | null {
+  if (term.length < 2) return null;
+  let result: Set<number> | null = null;
+  for (const gram of bigrams(term)) {
+    const postings = index.grams.get(gram);
+    if (!postings) return new Set();
+    result = result ? intersect(result, postings) : new Set(postings);
+    if (result.size === 0) break;
+  }
+  return result;
+}
+
+function findAll(text: string, term: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  let from = 0;
+  while (from <= text.length) {
+    const at = text.indexOf(term, from);
+    if (at === -1) break;
+    ranges.push([at, at + term.length]);
+    from = at + term.length;
+  }
+  return ranges;
+}
+
+function buildSnippet(entry: IndexedMessage, ranges: [number, number][]): Pick<SearchResult, 'snippet' | 'highlights'> {
+  const content = entry.message.content;
+  // 正規化後の位置を元の本文の位置に戻す
+  const original = ranges
+    .map(([start, end]): [number, number] => [entry.positions[start], entry.positions[end]])
+    .sort((a, b) => a[0] - b[0]);
+
+  const first = original[0];
+  const start = Math.max(0, first[0] - SNIPPET_CONTEXT);
+  const end = Math.min(content.length, first[1] + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+
+  // 改行は空白にして1行で表示する（文字数は変わらないので位置はそのまま使える）
+  const snippet = prefix + content.slice(start, end).replace(/\s/g, ' ') + suffix;
+  const highlights: [number, number][] = [];
+  for (const [s, e] of original) {
+    if (s < start || e > end) continue;
+    const last = highlights[highlights.length - 1];
+    const range: [number, number] = [s - start + prefix.length, e - start + prefix.length];
+    // 重なる一致はまとめる
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      highlights.push(range);
+    }
+  }
+  return { snippet, highlights };
+}
+
+// 空白区切りの語をすべて含むメッセージを、会話の更新が新しい順に返す
+export function searchMessages(index: SearchIndex, query: string, limit = 50): SearchResult[] {
+  // 索引と同じく1文字ずつ正規化する（結合文字の扱いを揃えるため）
+  const terms = normalize(query).normalized.split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  let candidates: Set<number> | null = null;
+  for (const term of terms) {
+    const termCandidates = candidatesFor(index, term);
+    if (!termCandidates) continue;
+    candidates = candidates ? intersect(candidates, termCandidates) : termCandidates;
+  }
+  const indices = candidates ? [...candidates] : index.entries.map((_, i) => i);
+
+  const results: SearchResult[] = [];
+  for (const i of indices) {
+    const entry = index.entries[i];
+    const ranges = terms.map((term) => findAll(entry.normalized, term));
+    // バイグラムが揃っていても語として含まれない場合がある
+    if (ranges.some((r) => r.length === 0)) continue;
+    results.push({
+      conversationId: entry.conversation.id,
+      conversationTitle: entry.conversation.title,
+      messageId: entry.message.id,
+      role: entry.message.role,
+      ...buildSnippet(entry, ranges.flat()),
+      updatedAt: entry.conversation.updatedAt,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, limit);
+}
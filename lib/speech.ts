@@ -0,0 +1,46 @@
+// Markdownの回答を読み上げ用のテキストに変換する
+// コードブロックは読み上げず、リストは順番どおり1項目ずつ区切って読む
+
+export function toSpeakableText(markdown: string): string {
+  const lines = markdown
+    // コードブロック（``` または ~~~）は省略
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?(^\1[^\n]*$|(?![\s\S]))/gm, 'コードは省略します。\n')
+    .replace(/<[^>]+>/g, '')
+    .split('\n');
+
+  const spoken: string[] = [];
+  for (const rawLine of lines) {
+    let line = rawLine.trim();
+    if (!line) continue;
+    // 表の区切り行
+    if (/^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line)) continue;
+    // 水平線
+    if (/^([-*_]\s*){3,}$/.test(line)) continue;
+
+    line = line
+      // 見出し・引用
+      .replace(/^#{1,6}\s+/, '')
+      .replace(/^(>\s?)+/, '')
+      // 番号付きリストは番号を残す（「1. 」→「1、」）
+      .replace(/^(\d+)[.)]\s+/, '$1、')
+      // 箇条書き・チェックボックス
+      .replace(/^[-*+]\s+(\[[ xX]\]\s+)?/, '')
+      // 画像は代替テキスト、リンクは表示テキストのみ
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      // インラインコード・強調・取り消し線の記号
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, '$2')
+      // 表のセルは読点で区切る
+      .replace(/^\||\|$/g, '')
+      .replace(/\s*\|\s*/g, '、')
+      .trim();
+
+    if (line) {
+      // 文末に句読点がなければ区切りを入れて、項目がつながって読まれないようにする
+      spoken.push(/[。．.!?！？]$/.test(line) ? line : `${line}。`);
+    }
+  }
+
+  return spoken.join('\n');
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createSSEDecoder, encodeSSE, readSSEStream, type SSEEvent } from '@/lib/sse';
+
+// チャンクを順に渡し、flush までに得られたイベントをまとめて返す
+function decode(chunks: string[]): SSEEvent[] {
+  const decoder = createSSEDecoder();
+  return [...chunks.flatMap((chunk) => decoder.push(chunk)), ...decoder.flush()];
+}
+
+describe('createSSEDecoder', () => {
+  it('チャンクをまたいだJSONのイベントを1件にまとめる', () => {
+    const payload = JSON.stringify({ event: 'text_chunk', data: { text: 'こんにちは' } });
+    const decoder = createSSEDecoder();
+
+    expect(decoder.push(`data: ${payload.slice(0, 10)}`)).toEqual([]);
+    expect(decoder.push(payload.slice(10))).toEqual([]);
+    const events = decoder.push('\n\n');
+
+    expect(events).toEqual([{ event: 'message', data: payload }]);
+    expect(JSON.parse(events[0].data)).toEqual(JSON.parse(payload));
+  });
+
+  it('チャンクの境目で分かれた \\r\\n を1つの改行として扱う', () => {
+    const decoder = createSSEDecoder();
+
+    expect(decoder.push('data: a\r')).toEqual([]);
+    expect(decoder.push('\ndata: b\r\n\r')).toEqual([]);
+    expect(decoder.push('\n')).toEqual([{ event: 'message', data: 'a\nb' }]);
+  });
+
+  it('\\r のみ・\\n のみの改行も受け付ける', () => {
+    expect(decode(['data: a\r\rdata: b\n\n'])).toEqual([
+      { event: 'message', data: 'a' },
+      { event: 'message', data: 'b' },
+    ]);
+  });
+
+  it('複数行の data: を改行で連結する', () => {
+    expect(decode(['data: 1行目\ndata: 2行目\ndata:\ndata:  先頭の空白\n\n'])).toEqual([
+      { event: 'message', data: '1行目\n2行目\n\n 先頭の空白' },
+    ]);
+  });
+
+  it('event: と id: を読み取り、id は後続のイベントにも引き継ぐ', () => {
+    expect(decode(['event: ping\nid: 42\ndata: x\n\n', 'data: y\n\n', 'id: 43\nevent: done\ndata: z\n\n'])).toEqual([
+      { event: 'ping', data: 'x', id: '42' },
+      { event: 'message', data: 'y', id: '42' },
+      { event: 'done', data: 'z', id: '43' },
+    ]);
+  });
+
+  it('NULを含む id: は無視する', () => {
+    expect(decode(['id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n'])).toEqual([
+      { event: 'message', data: 'a', id: '1' },
+      { event: 'message', data: 'b', id: '1' },
+    ]);
+  });
+
+  it('コメント行と未知のフィールドは読み飛ばす', () => {
+    expect(decode([': keep-alive\n\n', ':comment\nretry: 1000\ndata: a\nfoo: bar\n\n'])).toEqual([
+      { event: 'message', data: 'a' },
+    ]);
+  });
+
+  it('data: のないイベントは返さない', () => {
+    expect(decode(['event: ping\n\n'])).toEqual([]);
+  });
+
+  it('flush で空行で閉じられていない最後のイベントを返す', () => {
+    const decoder = createSSEDecoder();
+
+    expect(decoder.push('data: a\n\ndata: b')).toEqual([{ event: 'message', data: 'a' }]);
+    expect(decoder.flush()).toEqual([{ event: 'message', data: 'b' }]);
+    expect(decoder.flush()).toEqual([]);
+  });
+
+  it('flush で末尾に残った \\r を取り除く', () => {
+    const decoder = createSSEDecoder();
+
+    expect(decoder.push('event: end\ndata: b\r')).toEqual([]);
+    expect(decoder.flush()).toEqual([{ event: 'end', data: 'b' }]);
+  });
+});
+
+describe('readSSEStream', () => {
+  it('マルチバイト文字がバイト列の途中で分かれても復元する', async () => {
+    const bytes = encodeSSE({ text: 'あいう' });
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // 「あ」の途中で分割する
+        const cut = bytes.indexOf(0xe3) + 1;
+        controller.enqueue(bytes.slice(0, cut));
+        controller.enqueue(bytes.slice(cut));
+        controller.close();
+      },
+    });
+
+    const events: SSEEvent[] = [];
+    for await (const event of readSSEStream(stream.getReader())) {
+      events.push(event);
+    }
+
+    expect(events).toHaveLength(1);
+    expect(JSON.parse(events[0].data)).toEqual({ text: 'あいう' });
+  });
+});
@@ -0,0 +1,132 @@
+// Server-Sent Events のデコーダー
+// API route（Dify からのストリーム）とブラウザ（/api/chat からのストリーム）の両方で使う
+
+export interface SSEEvent {
+  // event: フィールド（省略時は 'message'）
+  event: string;
+  // data: フィールド（複数行の場合は改行で連結）
+  data: string;
+  // id: フィールド（直近に受け取った値）
+  id?: string;
+}
+
+export interface SSEDecoder {
+  // 受信したテキストを追加し、完成したイベントを返す
+  push(chunk: string): SSEEvent[];
+  // ストリーム終了時に、空行で閉じられていない最後のイベントを返す
+  flush(): SSEEvent[];
+}
+
+export function createSSEDecoder(): SSEDecoder {
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+
+  const dispatch = (events: SSEEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        ...(lastEventId !== undefined && { id: lastEventId }),
+      });
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string, events: SSEEvent[]) => {
+    // 空行でイベントを確定
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    // コメント行
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          lastEventId = value;
+        }
+        break;
+      default:
+        // retry などのフィールドは使わない
+        break;
+    }
+  };
+
+  const push = (chunk: string) => {
+    const events: SSEEvent[] = [];
+    buffer += chunk;
+
+    // 改行コードは \r\n / \n / \r のいずれも許容する
+    // 末尾の \r は次のチャンクの \n と対になる可能性があるため保留する
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+      if (char === '\r' && i === buffer.length - 1) break;
+
+      processLine(buffer.slice(start, i), events);
+      if (char === '\r' && buffer[i + 1] === '\n') {
+        i++;
+      }
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+
+    return events;
+  };
+
+  const flush = () => {
+    const events: SSEEvent[] = [];
+    if (buffer !== '') {
+      processLine(buffer.replace(/\r$/, ''), events);
+      buffer = '';
+    }
+    dispatch(events);
+    return events;
+  };
+
+  return { push, flush };
+}
+
+// バイトストリームを読み取り、SSEイベントを順に返す
+export async function* readSSEStream(
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const decoder = new TextDecoder();
+  const sseDecoder = createSSEDecoder();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      yield* sseDecoder.push(decoder.decode());
+      yield* sseDecoder.flush();
+      return;
+    }
+    yield* sseDecoder.push(decoder.decode(value, { stream: true }));
+  }
+}
+
+// データをSSEの1イベントとしてエンコードする
+// JSON.stringify の結果は改行を含まないため data: は1行で済む
+export function encodeSSE(data: unknown): Uint8Array {
+  return new TextEncoder().encode(`data: ${JSON.stringify(data)}\n\n`);
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ローカルのJSONファイルストア
+// コレクションごとに DATA_DIR/<name>.json として保存する
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// 同じコレクションへの書き込みを直列化するためのキュー
+const queues = new Map<string, Promise<unknown>>();
+
+function collectionPath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const text = await fs.readFile(collectionPath(name), 'utf8');
+    return JSON.parse(text) as T[];
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw e;
+  }
+}
+
+// コレクションを読み込み、更新結果を書き戻す
+export function updateCollection<T, R = void>(
+  name: string,
+  updater: (items: T[]) => { items: T[]; result: R } | Promise<{ items: T[]; result: R }>
+): Promise<R> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const task = previous.catch(() => undefined).then(async () => {
+    const { items, result } = await updater(await readCollection<T>(name));
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    // 書き込み途中でプロセスが落ちても壊れないよう、一時ファイルからリネームする
+    const tmpPath = `${collectionPath(name)}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(items, null, 2), 'utf8');
+    await fs.rename(tmpPath, collectionPath(name));
+    return result;
+  });
+  queues.set(name, task);
+  return task;
+}
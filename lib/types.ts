@@ -0,0 +1,61 @@
+import type { Citation, WorkflowStep } from '@/lib/chat-stream';
+import type { FeedbackRating } from '@/lib/dify';
+
+// クライアントとサーバーで共有する会話データの型
+
+export interface Attachment {
+  name: string;
+  size: number;
+  mimeType: string;
+  // Difyにアップロードしたファイルのid（再生成のときに送り直す）
+  uploadFileId?: string;
+}
+
+export interface Feedback {
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+export interface Message {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  attachments?: Attachment[];
+  // 生成を途中で停止した回答
+  stopped?: boolean;
+  // 回答生成時のワークフローの実行ステップ
+  steps?: WorkflowStep[];
+  // 回答の根拠としてナレッジベースから引用した資料
+  citations?: Citation[];
+  // Dify側のメッセージID（チャットフロー・テキスト生成の回答のみ）
+  difyMessageId?: string;
+  // 回答したDify側の会話ID（チャットフローのみ。分岐ごとに続きを送る会話）
+  difyConversationId?: string;
+  // 回答への評価
+  feedback?: Feedback;
+  // 直前のメッセージのID（再生成・編集で分岐した場合は兄弟が同じ親を持つ）
+  parentId?: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  // 分岐を含むすべてのメッセージ（parentIdでツリーを構成）
+  messages: Message[];
+  // 表示中の分岐の末端メッセージ
+  currentLeafId?: string;
+  // 回答に使うDifyアプリのID（/api/apps の一覧。ない場合は既定のアプリ）
+  appId?: string;
+  // チャットフローアプリの場合の最新のDify側の会話ID（回答ごとの会話IDがない古い会話でも使う）
+  difyConversationId?: string;
+  // ユーザーが名前を変更した場合は true（以降はタイトルを自動で付け直さない）
+  titleEdited?: boolean;
+  // 最初の回答のあとにタイトルを生成済みなら true（以降は自動で付け直さない）
+  titleGenerated?: boolean;
+  // サイドバーの先頭に固定表示する
+  pinned?: boolean;
+  // 所属するフォルダの名前
+  folder?: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { usageToCSV, type UsageRecord } from '@/lib/usage';
+
+const record = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  id: 'r1',
+  userId: 'u1',
+  appType: 'workflow',
+  status: 'succeeded',
+  startedAt: Date.UTC(2026, 0, 1),
+  durationMs: 1200,
+  ...overrides,
+});
+
+describe('usageToCSV', () => {
+  it('メールアドレスの列を加え、未記録の値は空にする', () => {
+    const csv = usageToCSV([record({ totalTokens: 42 })], new Map([['u1', 'a@example.com']]));
+
+    expect(csv.split('\r\n')).toEqual([
+      'id,startedAt,userId,userEmail,conversationId,difyConversationId,appId,appType,status,durationMs,totalTokens,elapsedTime,totalSteps,error',
+      'r1,2026-01-01T00:00:00.000Z,u1,a@example.com,,,,workflow,succeeded,1200,42,,,',
+      '',
+    ]);
+  });
+
+  it('数式として解釈される文字列の先頭に \' を付ける', () => {
+    const csv = usageToCSV(
+      [record({ userId: '=HYPERLINK("x")', error: '-1+1', elapsedTime: -1 })],
+      new Map([['=HYPERLINK("x")', '@SUM(A1)']])
+    );
+    const row = csv.split('\r\n')[1];
+
+    expect(row).toBe(`r1,2026-01-01T00:00:00.000Z,"'=HYPERLINK(""x"")",'@SUM(A1),,,,workflow,succeeded,1200,,-1,,'-1+1`);
+  });
+
+  it('カンマ・改行・ダブルクォートを含む値をクォートする', () => {
+    const csv = usageToCSV([record({ error: 'bad "input",\nretry' })]);
+
+    expect(csv.split('\r\n').slice(1).join('\r\n')).toContain('"bad ""input"",\nretry"');
+  });
+});
@@ -0,0 +1,155 @@
+import { randomUUID } from 'crypto';
+import { readCollection, updateCollection } from '@/lib/store';
+
+// /api/chat の1リクエストごとの利用状況（トークン数・所要時間など）の記録と集計
+
+export type UsageStatus = 'succeeded' | 'failed' | 'stopped';
+
+export interface UsageRecord {
+  id: string;
+  userId: string;
+  // このアプリ上の会話ID
+  conversationId?: string;
+  // Dify側の会話ID（チャットフローのみ）
+  difyConversationId?: string;
+  // 登録アプリのID（記録していない古いデータはなし）
+  appId?: string;
+  appType: string;
+  status: UsageStatus;
+  error?: string;
+  startedAt: number;
+  // リクエストを受けてから回答を返し終えるまで（サーバーで計測、ミリ秒）
+  durationMs: number;
+  // Difyが報告した値（届かなかった場合はなし）
+  totalTokens?: number;
+  elapsedTime?: number;
+  totalSteps?: number;
+}
+
+export interface UsageStats {
+  requests: number;
+  errors: number;
+  tokens: number;
+  // 所要時間のパーセンタイル（ミリ秒、記録がなければ null）
+  latencyP50: number | null;
+  latencyP90: number | null;
+  latencyP99: number | null;
+}
+
+export interface UsageSummary {
+  total: UsageStats;
+  // 古い日付から順に、記録のない日も含める
+  byDay: ({ day: string } & UsageStats)[];
+  // リクエスト数の多い順
+  byUser: ({ userId: string } & UsageStats)[];
+}
+
+const COLLECTION = 'usage';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 保存期間（日）。古い記録は追加のたびに削除する
+function retentionDays(): number {
+  const value = Number(process.env.USAGE_RETENTION_DAYS);
+  return Number.isInteger(value) && value > 0 ? value : 90;
+}
+
+export function recordUsage(record: Omit<UsageRecord, 'id'>): Promise<void> {
+  const cutoff = Date.now() - retentionDays() * DAY_MS;
+  return updateCollection<UsageRecord>(COLLECTION, (records) => ({
+    items: [...records.filter((r) => r.startedAt >= cutoff), { id: randomUUID(), ...record }],
+    result: undefined,
+  }));
+}
+
+export async function listUsage(from: number, to = Date.now()): Promise<UsageRecord[]> {
+  const records = await readCollection<UsageRecord>(COLLECTION);
+  return records
+    .filter((r) => r.startedAt >= from && r.startedAt <= to)
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+// サーバーのローカル時刻での日付（YYYY-MM-DD）
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// 最近傍順位法（sorted は昇順）
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function toStats(records: UsageRecord[]): UsageStats {
+  const durations = records.map((r) => r.durationMs).sort((a, b) => a - b);
+  return {
+    requests: records.length,
+    errors: records.filter((r) => r.status === 'failed').length,
+    tokens: records.reduce((sum, r) => sum + (r.totalTokens ?? 0), 0),
+    latencyP50: percentile(durations, 50),
+    latencyP90: percentile(durations, 90),
+    latencyP99: percentile(durations, 99),
+  };
+}
+
+function groupBy(records: UsageRecord[], keyOf: (r: UsageRecord) => string): Map<string, UsageRecord[]> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+  return groups;
+}
+
+export function summarizeUsage(records: UsageRecord[], from: number, to = Date.now()): UsageSummary {
+  const days = groupBy(records, (r) => toDayKey(r.startedAt));
+  const byDay: UsageSummary['byDay'] = [];
+  const start = new Date(from);
+  for (
+    let date = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    date.getTime() <= to;
+    date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+  ) {
+    const day = toDayKey(date.getTime());
+    byDay.push({ day, ...toStats(days.get(day) ?? []) });
+  }
+
+  const byUser = [...groupBy(records, (r) => r.userId)]
+    .map(([userId, group]) => ({ userId, ...toStats(group) }))
+    .sort((a, b) => b.requests - a.requests);
+
+  return { total: toStats(records), byDay, byUser };
+}
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'id', 'startedAt', 'userId', 'conversationId', 'difyConversationId', 'appId', 'appType', 'status',
+  'durationMs', 'totalTokens', 'elapsedTime', 'totalSteps', 'error',
+];
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// 表計算ソフトで数式として実行されないよう、= + - @ タブ CR で始まる文字列の先頭に ' を付ける
+const neutralizeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+// 1行1リクエストのCSV（startedAt はISO 8601、userEmails があればメールアドレスの列を加える）
+export function usageToCSV(records: UsageRecord[], userEmails: Map<string, string> = new Map()): string {
+  const header = [...CSV_COLUMNS.slice(0, 3), 'userEmail', ...CSV_COLUMNS.slice(3)];
+  const rows = records.map((record) => {
+    const cells = CSV_COLUMNS.map((column) => {
+      const value = record[column];
+      if (value === undefined) return '';
+      if (column === 'startedAt') return new Date(value as number).toISOString();
+      return typeof value === 'string' ? neutralizeFormula(value) : String(value);
+    });
+    cells.splice(3, 0, neutralizeFormula(userEmails.get(record.userId) ?? ''));
+    return cells.map(escapeCsv).join(',');
+  });
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
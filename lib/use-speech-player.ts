@@ -0,0 +1,97 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toSpeakableText } from '@/lib/speech';
+
+// 回答の読み上げ（/api/text-to-audio）を再生するフック
+// 同時に再生するのは1件だけで、別の回答を再生すると前の再生は止まる
+
+export type SpeechStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export function useSpeechPlayer(onError: (message: string) => void) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [status, setStatus] = useState<SpeechStatus>('idle');
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const objectUrlRef = useRef<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    if (audioRef.current) {
+      audioRef.current.onended = null;
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+    setActiveId(null);
+    setStatus('idle');
+  }, []);
+
+  // アンマウント時に再生を止める
+  useEffect(() => stop, [stop]);
+
+  const play = useCallback(async (id: string, markdown: string, appId?: string) => {
+    stop();
+    const text = toSpeakableText(markdown);
+    if (!text) return;
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setActiveId(id);
+    setStatus('loading');
+
+    try {
+      const response = await fetch('/api/text-to-audio', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text, appId }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      if (controller.signal.aborted) return;
+
+      const url = URL.createObjectURL(blob);
+      const audio = new Audio(url);
+      objectUrlRef.current = url;
+      audioRef.current = audio;
+      requestRef.current = null;
+      audio.onended = stop;
+      await audio.play();
+      setStatus('playing');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      stop();
+      onError(`読み上げに失敗しました: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [stop, onError]);
+
+  // 再生 → 一時停止 → 再開 を切り替える
+  const toggle = useCallback((id: string, markdown: string, appId?: string) => {
+    if (activeId !== id) {
+      play(id, markdown, appId);
+      return;
+    }
+    const audio = audioRef.current;
+    if (status === 'playing' && audio) {
+      audio.pause();
+      setStatus('paused');
+    } else if (status === 'paused' && audio) {
+      audio.play().then(() => setStatus('playing')).catch(stop);
+    } else {
+      stop();
+    }
+  }, [activeId, status, play, stop]);
+
+  return { activeId, status, play, toggle, stop };
+}
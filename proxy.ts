@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+
+// ログインが必要なAPIへのリクエストを確認する
+export async function proxy(request: NextRequest) {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/api/chat/:path*', '/api/conversations/:path*', '/api/audio-to-text', '/api/text-to-audio', '/api/title', '/api/feedback', '/api/apps', '/api/admin/:path*'],
+};